@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import ClinicPage, { generateStaticParams } from "./page";
+import * as layout from "../../layout";
+import LocaleProvider from "@/components/LocaleProvider";
+import { clinicPath } from "@/lib/doctors/clinics";
+import { createDoctor } from "@/lib/doctors/roster-store";
+
+vi.mock("next/navigation", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("next/navigation")>()),
+  useRouter: () => ({ push: vi.fn(), replace: vi.fn(), refresh: vi.fn() }),
+  usePathname: () => "/",
+}));
+
+// The layout's fonts and Tailwind CSS only load in a Next.js build
+vi.mock("../../../fonts", () => ({ fontClassName: "" }));
+vi.mock("../../../globals.css", () => ({}));
+
+describe("clinic page", () => {
+  it("renders a clinic added after the build", async () => {
+    const built = (await generateStaticParams()).map(({ id }) => id);
+
+    const doctor = await createDoctor({
+      id: "900",
+      name: "Dr. Test Doctor",
+      specialities: [{ name: "Neurologist" }],
+      fees: "₹ 800",
+      experience: "9 Years of experience",
+      languages: ["English"],
+      clinic: {
+        name: "Test Clinic",
+        address: {
+          locality: "Saket",
+          city: "Pune",
+          address_line1: "1 Main Road",
+          location: "",
+        },
+      },
+      video_consult: true,
+      in_clinic: true,
+    });
+    const id = doctor.clinicId!;
+    expect(clinicPath(id)).toBe("/clinics/test-clinic-saket-pune");
+    expect(built).not.toContain(id);
+
+    // Pages outside generateStaticParams must still be rendered on request
+    expect(layout).not.toHaveProperty("dynamicParams", false);
+
+    render(
+      <LocaleProvider locale="en">
+        {await ClinicPage({ params: Promise.resolve({ locale: "en", id }) })}
+      </LocaleProvider>
+    );
+    expect(
+      screen.getByRole("heading", { level: 1, name: "Test Clinic" })
+    ).toBeInTheDocument();
+    expect(screen.getByText("Dr. Test Doctor")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,137 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import ClinicLogo from "@/components/ClinicLogo";
+import DoctorCard from "@/components/DoctorCard";
+import {
+  clinicJsonLd,
+  clinicPath,
+  doctorsAt,
+  findClinic,
+  listClinics,
+} from "@/lib/doctors/clinics";
+import { availabilityFor } from "@/lib/doctors/listing";
+import { serializeJsonLd } from "@/lib/doctors/seo";
+import { loadDoctors } from "@/lib/doctors/sources";
+import { emptyQuery, encodeQuery } from "@/lib/doctors/url-state";
+import { localeAlternates, type Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+import { loadRatings } from "@/lib/reviews/store";
+
+export const revalidate = 3600;
+
+interface ClinicPageProps {
+  params: Promise<{ locale: Locale; id: string }>;
+}
+
+export async function generateStaticParams() {
+  return listClinics(await loadDoctors()).map((clinic) => ({ id: clinic.id }));
+}
+
+async function resolve(params: ClinicPageProps["params"]) {
+  const { locale, id } = await params;
+  const doctors = await loadDoctors();
+  const clinic = findClinic(doctors, decodeURIComponent(id));
+  if (!clinic) return null;
+
+  return { locale, clinic, doctors: doctorsAt(doctors, clinic.id) };
+}
+
+export async function generateMetadata({
+  params,
+}: ClinicPageProps): Promise<Metadata> {
+  const page = await resolve(params);
+  if (!page) return {};
+
+  const { locale, clinic, doctors } = page;
+  const { t } = getI18n(locale);
+  const place = [clinic.address.locality, clinic.address.city]
+    .filter(Boolean)
+    .join(", ");
+  return {
+    title: t("clinics.clinicMetaTitle", {
+      name: place ? `${clinic.name}, ${place}` : clinic.name,
+    }),
+    description: t("clinics.clinicMetaDescription", {
+      doctors: t("counts.doctors", { count: doctors.length }),
+      name: clinic.name,
+      specialities: clinic.specialities.join(", "),
+    }),
+    alternates: localeAlternates(locale, clinicPath(clinic.id)),
+  };
+}
+
+export default async function ClinicPage({ params }: ClinicPageProps) {
+  const page = await resolve(params);
+  if (!page) notFound();
+
+  const { locale, clinic, doctors } = page;
+  const { t, href } = getI18n(locale);
+  const { address } = clinic;
+  const availability = await availabilityFor(doctors);
+  const ratings = await loadRatings();
+  const finderUrl = `${href("/")}?${encodeQuery({ ...emptyQuery, clinics: [clinic.id] })}`;
+
+  return (
+    <>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: serializeJsonLd(clinicJsonLd(clinic, locale)),
+        }}
+      />
+
+      <nav
+        aria-label={t("common.breadcrumb")}
+        className="text-sm text-gray-500 mb-4"
+      >
+        <ol className="flex flex-wrap gap-1">
+          <li>
+            <Link href={href("/clinics")} className="hover:text-blue-600">
+              {t("clinics.heading")}
+            </Link>
+            <span className="mx-1">/</span>
+          </li>
+          <li>
+            <span aria-current="page">{clinic.name}</span>
+          </li>
+        </ol>
+      </nav>
+
+      <section className="bg-white p-6 rounded-lg shadow-sm flex flex-col md:flex-row gap-4 mb-6">
+        <ClinicLogo clinic={clinic} className="w-20 h-20" locale={locale} />
+        <div className="flex-grow">
+          <h1 className="text-2xl font-bold text-gray-800">{clinic.name}</h1>
+          <address className="not-italic text-gray-600">
+            {[address.address_line1, address.locality, address.city]
+              .filter(Boolean)
+              .join(", ")}
+          </address>
+          <p className="text-sm text-gray-600 mt-2">
+            {clinic.specialities.join(", ")}
+          </p>
+        </div>
+        <Link
+          href={finderUrl}
+          className="self-start text-sm text-blue-600 hover:text-blue-800"
+        >
+          {t("clinics.filterAndSort")}
+        </Link>
+      </section>
+
+      <h2 className="font-semibold text-lg mb-3 text-gray-700">
+        {t("clinics.doctorsHere", { count: doctors.length })}
+      </h2>
+      <div className="space-y-4">
+        {doctors.map((doctor) => (
+          <DoctorCard
+            key={doctor.id}
+            doctor={doctor}
+            availability={availability[doctor.id]}
+            rating={ratings[doctor.id]}
+          />
+        ))}
+      </div>
+    </>
+  );
+}
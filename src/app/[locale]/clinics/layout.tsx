@@ -0,0 +1,24 @@
+import SiteFooter from "@/components/SiteFooter";
+import SiteHeader from "@/components/SiteHeader";
+
+export default function ClinicsLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <SiteHeader />
+
+      <main
+        id="main-content"
+        tabIndex={-1}
+        className="container mx-auto px-4 py-6 focus:outline-none"
+      >
+        {children}
+      </main>
+
+      <SiteFooter />
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import ClinicLogo from "@/components/ClinicLogo";
+import { clinicPath, listClinics } from "@/lib/doctors/clinics";
+import { loadDoctors } from "@/lib/doctors/sources";
+import { localeAlternates, type Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+
+export const revalidate = 3600;
+
+interface ClinicsPageProps {
+  params: Promise<{ locale: Locale }>;
+}
+
+export async function generateMetadata({
+  params,
+}: ClinicsPageProps): Promise<Metadata> {
+  const { locale } = await params;
+  const { t } = getI18n(locale);
+  return {
+    title: t("clinics.metaTitle"),
+    description: t("clinics.metaDescription"),
+    alternates: localeAlternates(locale, "/clinics"),
+  };
+}
+
+export default async function ClinicsPage({ params }: ClinicsPageProps) {
+  const { locale } = await params;
+  const { t, href } = getI18n(locale);
+  const clinics = listClinics(await loadDoctors());
+  const cities = Array.from(
+    new Set(clinics.map((clinic) => clinic.address.city))
+  );
+
+  return (
+    <>
+      <h1 className="text-2xl font-bold text-gray-800 mb-1">
+        {t("clinics.heading")}
+      </h1>
+      <p className="text-gray-600 mb-6">
+        {t("clinics.summary", {
+          clinics: t("counts.clinics", { count: clinics.length }),
+          cities: t("counts.cities", { count: cities.length }),
+        })}
+      </p>
+
+      {cities.map((city) => (
+        <section key={city || "other"} className="mb-8">
+          <h2 className="font-semibold text-lg mb-3 text-gray-700">
+            {city || t("clinics.other")}
+          </h2>
+          <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {clinics
+              .filter((clinic) => clinic.address.city === city)
+              .map((clinic) => (
+                <li
+                  key={clinic.id}
+                  data-testid="clinic-card"
+                  className="bg-white p-4 rounded-lg shadow-sm hover:shadow-md transition flex gap-4"
+                >
+                  <ClinicLogo
+                    clinic={clinic}
+                    className="w-14 h-14"
+                    locale={locale}
+                  />
+                  <div className="min-w-0">
+                    <Link
+                      href={href(clinicPath(clinic.id))}
+                      className="font-semibold text-gray-800 hover:text-blue-600"
+                    >
+                      {clinic.name}
+                    </Link>
+                    <p className="text-sm text-gray-500">
+                      {[clinic.address.locality, clinic.address.city]
+                        .filter(Boolean)
+                        .join(", ")}
+                    </p>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {t("counts.doctors", {
+                        count: clinic.doctorIds.length,
+                      })}{" "}
+                      · {clinic.specialities.slice(0, 3).join(", ")}
+                      {clinic.specialities.length > 3
+                        ? ` +${clinic.specialities.length - 3}`
+                        : ""}
+                    </p>
+                  </div>
+                </li>
+              ))}
+          </ul>
+        </section>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import SpecialityListing from "@/components/SpecialityListing";
+import {
+  doctorsIn,
+  findCity,
+  findSpeciality,
+  listingPages,
+  slugify,
+  specialityPath,
+} from "@/lib/doctors/seo";
+import { availabilityFor } from "@/lib/doctors/listing";
+import { loadDoctors } from "@/lib/doctors/sources";
+import { localeAlternates, type Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+import { loadRatings } from "@/lib/reviews/store";
+
+export const revalidate = 3600;
+
+interface CityPageProps {
+  params: Promise<{ locale: Locale; slug: string; city: string }>;
+}
+
+export async function generateStaticParams() {
+  return listingPages(await loadDoctors()).flatMap((page) =>
+    page.city
+      ? [{ slug: slugify(page.speciality), city: slugify(page.city) }]
+      : []
+  );
+}
+
+async function resolve(params: CityPageProps["params"]) {
+  const { locale, slug: specialitySlug, city: citySlug } = await params;
+  const doctors = await loadDoctors();
+  const speciality = findSpeciality(doctors, specialitySlug);
+  const city = findCity(doctors, citySlug);
+  if (!speciality || !city) return null;
+
+  const matches = doctorsIn(doctors, speciality, city);
+  if (matches.length === 0) return null;
+
+  return { locale, doctors, speciality, city, matches };
+}
+
+export async function generateMetadata({
+  params,
+}: CityPageProps): Promise<Metadata> {
+  const page = await resolve(params);
+  if (!page) return {};
+
+  const { locale, speciality, city, matches } = page;
+  const { t } = getI18n(locale);
+  return {
+    title: t("listing.metaTitleInCity", { speciality, city }),
+    description: t("listing.metaDescriptionInCity", {
+      city,
+      doctors: t("listing.doctorsOf", {
+        count: matches.length,
+        speciality: speciality.toLowerCase(),
+      }),
+    }),
+    alternates: localeAlternates(locale, specialityPath(speciality, city)),
+  };
+}
+
+export default async function CityPage({ params }: CityPageProps) {
+  const page = await resolve(params);
+  if (!page) notFound();
+
+  const { locale, doctors, speciality, city, matches } = page;
+  const cities = Array.from(
+    new Set(
+      doctorsIn(doctors, speciality)
+        .map(({ clinic }) => clinic.address.city)
+        .filter(Boolean)
+    )
+  ).sort();
+
+  return (
+    <SpecialityListing
+      speciality={speciality}
+      city={city}
+      doctors={matches}
+      availability={await availabilityFor(matches)}
+      ratings={await loadRatings()}
+      cities={cities}
+      locale={locale}
+    />
+  );
+}
@@ -0,0 +1,123 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { connection } from "next/server";
+import DoctorProfile from "@/components/DoctorProfile";
+import SpecialityListing from "@/components/SpecialityListing";
+import { findDoctor } from "@/lib/doctors/query";
+import {
+  doctorPath,
+  doctorsIn,
+  findSpeciality,
+  listingPages,
+  slugify,
+  specialityPath,
+} from "@/lib/doctors/seo";
+import { availabilityFor } from "@/lib/doctors/listing";
+import { loadDoctors } from "@/lib/doctors/sources";
+import { localeAlternates, type Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+import { listReviews, loadRatings } from "@/lib/reviews/store";
+
+// Re-read the roster hourly so new doctors and specialities get pages without a
+// rebuild. Profiles render per request instead, see below.
+export const revalidate = 3600;
+
+// /doctors/<id> is a doctor's profile, /doctors/<speciality> a listing.
+// Next.js allows only one dynamic segment name per level, so both share [slug].
+interface DoctorsSlugPageProps {
+  params: Promise<{ locale: Locale; slug: string }>;
+}
+
+export async function generateStaticParams() {
+  const doctors = await loadDoctors();
+  return [
+    ...doctors.map((doctor) => ({ slug: doctor.id })),
+    ...listingPages(doctors)
+      .filter((page) => !page.city)
+      .map((page) => ({ slug: slugify(page.speciality) })),
+  ];
+}
+
+export async function generateMetadata({
+  params,
+}: DoctorsSlugPageProps): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const { t, formatExperience } = getI18n(locale);
+  const doctors = await loadDoctors();
+
+  const doctor = findDoctor(doctors, slug);
+  if (doctor) {
+    const specialities = doctor.specialities.map(({ name }) => name).join(", ");
+    return {
+      title: `${doctor.name} - ${specialities}`,
+      description:
+        doctor.doctor_introduction ??
+        t("profile.metaDescription", {
+          name: doctor.name,
+          specialities,
+          experience: formatExperience(doctor.experienceYears).toLowerCase(),
+        }),
+      alternates: localeAlternates(locale, doctorPath(doctor.id)),
+    };
+  }
+
+  const speciality = findSpeciality(doctors, slug);
+  if (!speciality) return {};
+
+  return {
+    title: t("listing.metaTitle", { speciality }),
+    description: t("listing.metaDescription", {
+      doctors: t("listing.doctorsOf", {
+        count: doctorsIn(doctors, speciality).length,
+        speciality: speciality.toLowerCase(),
+      }),
+    }),
+    alternates: localeAlternates(locale, specialityPath(speciality)),
+  };
+}
+
+export default async function DoctorsSlugPage({
+  params,
+}: DoctorsSlugPageProps) {
+  const { locale, slug } = await params;
+  const doctors = await loadDoctors();
+
+  const doctor = findDoctor(doctors, slug);
+  if (doctor) {
+    // The next open slot changes with every booking, so a cached profile
+    // would disagree with the booking dialog
+    await connection();
+    const availability = await availabilityFor([doctor]);
+    const reviews = await listReviews({
+      doctorId: doctor.id,
+      status: "approved",
+    });
+    return (
+      <DoctorProfile
+        doctor={doctor}
+        availability={availability[doctor.id]}
+        reviews={reviews}
+        locale={locale}
+      />
+    );
+  }
+
+  const speciality = findSpeciality(doctors, slug);
+  if (!speciality) notFound();
+
+  const matches = doctorsIn(doctors, speciality);
+  const cities = Array.from(
+    new Set(matches.map(({ clinic }) => clinic.address.city).filter(Boolean))
+  ).sort();
+
+  return (
+    <SpecialityListing
+      speciality={speciality}
+      doctors={matches}
+      availability={await availabilityFor(matches)}
+      ratings={await loadRatings()}
+      cities={cities}
+      locale={locale}
+    />
+  );
+}
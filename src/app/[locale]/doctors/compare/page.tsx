@@ -0,0 +1,57 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import DoctorComparison from "@/components/DoctorComparison";
+import { findDoctor } from "@/lib/doctors/query";
+import { loadDoctors } from "@/lib/doctors/sources";
+import type { Doctor } from "@/lib/doctors/types";
+import type { Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+import { maxCompare } from "@/lib/shortlist";
+
+interface ComparePageProps {
+  params: Promise<{ locale: Locale }>;
+  searchParams: Promise<{ ids?: string | string[] }>;
+}
+
+export async function generateMetadata({
+  params,
+}: ComparePageProps): Promise<Metadata> {
+  const { locale } = await params;
+  return {
+    title: getI18n(locale).t("compare.title"),
+    // Every shortlist makes a different URL, none worth indexing
+    robots: { index: false },
+  };
+}
+
+// /doctors/compare?ids=<id>&ids=<id>, up to four doctors side by side
+export default async function ComparePage({
+  params,
+  searchParams,
+}: ComparePageProps) {
+  const { locale } = await params;
+  const { t, href } = getI18n(locale);
+  const { ids } = await searchParams;
+  const doctors = await loadDoctors();
+
+  const selected = Array.from(new Set([ids ?? []].flat()))
+    .map((id) => findDoctor(doctors, id))
+    .filter((doctor): doctor is Doctor => !!doctor)
+    .slice(0, maxCompare);
+
+  if (selected.length === 0) {
+    return (
+      <div className="bg-white p-6 rounded-lg shadow text-center text-gray-700">
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">
+          {t("compare.title")}
+        </h1>
+        <p className="mb-4">{t("compare.empty", { count: maxCompare })}</p>
+        <Link href={href("/")} className="text-blue-600 hover:text-blue-800">
+          {t("compare.findDoctors")}
+        </Link>
+      </div>
+    );
+  }
+
+  return <DoctorComparison doctors={selected} locale={locale} />;
+}
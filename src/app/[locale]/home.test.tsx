@@ -0,0 +1,307 @@
+// @vitest-environment jsdom
+import { render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import axe from "axe-core";
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Home from "./home";
+import LocaleProvider from "@/components/LocaleProvider";
+import { GET as listDoctors } from "../api/doctors/route";
+import { GET as suggest } from "../api/suggest/route";
+import { getDoctorsResponse } from "@/lib/doctors/listing";
+import type { Locale } from "@/lib/i18n/config";
+
+const router = vi.hoisted(() => ({
+  push: vi.fn(),
+  replace: vi.fn(),
+  searchParams: new URLSearchParams(),
+}));
+
+vi.mock("next/navigation", () => ({
+  useRouter: () => router,
+  usePathname: () => "/",
+  useSearchParams: () => router.searchParams,
+}));
+
+// Answer the page's API calls with the real route handlers, which read the
+// bundled fixture roster
+const routes: Record<string, (request: NextRequest) => Promise<Response>> = {
+  "/api/doctors": listDoctors,
+  "/api/suggest": suggest,
+};
+
+beforeEach(() => {
+  router.push.mockClear();
+  router.replace.mockClear();
+  localStorage.clear();
+  sessionStorage.clear();
+  // Not implemented by jsdom
+  Element.prototype.scrollIntoView = vi.fn();
+  window.scrollTo = vi.fn();
+  vi.stubGlobal("fetch", async (input: string, init?: RequestInit) => {
+    const url = new URL(input, "http://localhost");
+    return routes[url.pathname](
+      new NextRequest(url, { signal: init?.signal ?? undefined })
+    );
+  });
+});
+
+async function renderHome(params = "", locale: Locale = "en") {
+  router.searchParams = new URLSearchParams(params);
+  const initialData = await getDoctorsResponse(new URLSearchParams(params));
+  render(
+    <LocaleProvider locale={locale}>
+      <Home initialData={initialData} />
+    </LocaleProvider>
+  );
+}
+
+const resultsCount = () => screen.getByTestId("results-count");
+
+// Accessibility problems axe finds on the page. Colour contrast needs real
+// layout, which jsdom doesn't do.
+async function axeViolations() {
+  const results = await axe.run(document.body, {
+    rules: { "color-contrast": { enabled: false } },
+  });
+  return results.violations.map(
+    (violation) =>
+      `${violation.id}: ${violation.nodes.map((node) => node.target).join(", ")}`
+  );
+}
+
+const shownNames = () =>
+  screen.getAllByTestId("doctor-name").map((name) => name.textContent);
+
+describe("Home", () => {
+  it("shows the first page of the roster", async () => {
+    await renderHome();
+
+    expect(screen.getAllByTestId("doctor-card")).toHaveLength(20);
+    expect(resultsCount()).toHaveTextContent("Showing 1–20 of 24 doctors");
+    expect(screen.getByTestId("filter-count-video")).toHaveTextContent("19");
+  });
+
+  it("filters by consultation mode and records it in the URL", async () => {
+    const user = userEvent.setup();
+    await renderHome();
+
+    await user.click(screen.getByTestId("filter-video-consult"));
+
+    await waitFor(() =>
+      expect(resultsCount()).toHaveTextContent("Showing 1–19 of 19 doctors")
+    );
+    expect(router.push).toHaveBeenCalledWith("/?consultType=video", {
+      scroll: false,
+    });
+    screen
+      .getAllByTestId("doctor-card")
+      .forEach((card) =>
+        expect(within(card).getByText("Video Consult")).toBeTruthy()
+      );
+  });
+
+  it("filters by speciality and language", async () => {
+    const user = userEvent.setup();
+    await renderHome();
+
+    await user.click(screen.getByTestId("filter-specialty-Dentist"));
+    await waitFor(() => expect(shownNames()).toHaveLength(3));
+    screen
+      .getAllByTestId("doctor-specialty")
+      .forEach((specialty) => expect(specialty).toHaveTextContent("Dentist"));
+
+    await user.click(screen.getByTestId("filter-language-Marathi"));
+    await waitFor(() => expect(shownNames()).toEqual(["Dr. Kshitij Jagdale"]));
+  });
+
+  it("reads comma-joined specialities from old links", async () => {
+    await renderHome("specialties=Dentist,Dermatologist");
+
+    expect(screen.getByTestId("filter-specialty-Dentist")).toBeChecked();
+    expect(screen.getByTestId("filter-specialty-Dermatologist")).toBeChecked();
+    expect(shownNames().length).toBeGreaterThan(3);
+    screen
+      .getAllByTestId("doctor-specialty")
+      .forEach((specialty) =>
+        expect(specialty).toHaveTextContent(/Dentist|Dermatologist/)
+      );
+  });
+
+  it("sorts by fees, cheapest first", async () => {
+    const user = userEvent.setup();
+    await renderHome();
+
+    await user.click(screen.getByTestId("sort-fees"));
+
+    await waitFor(() =>
+      expect(shownNames().slice(0, 3)).toEqual([
+        "Dr. Neha Joshi",
+        "Dr. Shreya Nair",
+        "Dr. Sanjay Patil",
+      ])
+    );
+  });
+
+  it("searches as you type", async () => {
+    const user = userEvent.setup();
+    await renderHome();
+
+    await user.type(screen.getByTestId("header-search"), "dentist");
+
+    await waitFor(() =>
+      expect(shownNames()).toEqual([
+        "Dr. Kshitij Jagdale",
+        "Dr. Imran Qureshi",
+        "Dr. Shreya Nair",
+      ])
+    );
+    expect(router.replace).toHaveBeenLastCalledWith("/?search=dentist", {
+      scroll: false,
+    });
+  });
+
+  it("keeps searching when suggestions fail", async () => {
+    const user = userEvent.setup();
+    const failing = vi.fn(async () =>
+      Response.json({ error: "Failed to load suggestions" }, { status: 500 })
+    );
+    routes["/api/suggest"] = failing;
+    try {
+      await renderHome();
+
+      await user.type(screen.getByTestId("header-search"), "dentist");
+
+      await waitFor(() => expect(failing).toHaveBeenCalled());
+      await waitFor(() => expect(shownNames()).toHaveLength(3));
+      // Let the error answer reach the component
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(screen.getByTestId("header-search")).toHaveAttribute(
+        "aria-expanded",
+        "false"
+      );
+    } finally {
+      routes["/api/suggest"] = suggest;
+    }
+  });
+
+  it("moves between pages", async () => {
+    const user = userEvent.setup();
+    await renderHome();
+
+    await user.click(screen.getByTestId("page-2"));
+
+    await waitFor(() =>
+      expect(resultsCount()).toHaveTextContent("Showing 21–24 of 24 doctors")
+    );
+    expect(screen.getAllByTestId("doctor-card")).toHaveLength(4);
+  });
+
+  it("clears every filter", async () => {
+    const user = userEvent.setup();
+    await renderHome("consultType=clinic&languages=Tamil");
+
+    expect(shownNames()).toHaveLength(4);
+    await user.click(screen.getByTestId("clear-all-filters"));
+
+    await waitFor(() =>
+      expect(resultsCount()).toHaveTextContent("Showing 1–20 of 24 doctors")
+    );
+  });
+});
+
+describe("Home accessibility", () => {
+  it("has no axe violations", async () => {
+    await renderHome("consultType=video");
+
+    expect(await axeViolations()).toEqual([]);
+  }, 30000);
+
+  it("opens the mobile filters as a modal dialog", async () => {
+    const user = userEvent.setup();
+    await renderHome();
+    const openButton = screen.getByTestId("open-filters");
+
+    await user.click(openButton);
+
+    const dialog = screen.getByRole("dialog", { name: "Filters" });
+    expect(dialog).toHaveAttribute("aria-modal", "true");
+    expect(openButton).toHaveAttribute("aria-expanded", "true");
+    expect(screen.getByTestId("clear-all-filters")).toHaveFocus();
+    expect(await axeViolations()).toEqual([]);
+
+    // Tab wraps around inside the dialog. Nearest first is disabled without
+    // a place, so the last control is Highest rated.
+    screen.getByTestId("sort-rating").focus();
+    await user.tab();
+    expect(screen.getByTestId("clear-all-filters")).toHaveFocus();
+    await user.tab({ shift: true });
+    expect(dialog).toContainElement(document.activeElement as HTMLElement);
+
+    await user.keyboard("{Escape}");
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    expect(openButton).toHaveFocus();
+  }, 30000);
+
+  it("keeps a sort picked until another one is", async () => {
+    const user = userEvent.setup();
+    await renderHome();
+    const fees = screen.getByTestId("sort-fees");
+
+    expect(screen.getByTestId("sort-default")).toBeChecked();
+    await user.click(fees);
+    await user.click(fees);
+
+    expect(fees).toBeChecked();
+    expect(screen.getByTestId("sort-default")).not.toBeChecked();
+    expect(router.push).toHaveBeenLastCalledWith("/?sortBy=fees", {
+      scroll: false,
+    });
+  });
+
+  it("announces the result count when filters change", async () => {
+    const user = userEvent.setup();
+    await renderHome();
+
+    await user.click(screen.getByTestId("filter-in-clinic"));
+
+    expect(resultsCount()).toHaveAttribute("role", "status");
+    await waitFor(() =>
+      expect(resultsCount()).toHaveTextContent("Showing 1–20 of 20 doctors")
+    );
+  });
+});
+
+describe("Home in Hindi", () => {
+  it("shows the page, fees and counts in Hindi", async () => {
+    await renderHome("consultType=video", "hi");
+
+    expect(
+      screen.getByRole("heading", { level: 1, name: "डॉक्टर खोजें" })
+    ).toBeTruthy();
+    expect(resultsCount()).toHaveTextContent(
+      "19 में से 1–19 डॉक्टर दिखाए जा रहे हैं"
+    );
+    const card = screen.getAllByTestId("doctor-card")[0];
+    expect(within(card).getByTestId("doctor-fee").textContent).toMatch(
+      /^₹[\d,]+$/
+    );
+    expect(within(card).getByTestId("doctor-experience")).toHaveTextContent(
+      /वर्षों? का अनुभव$/
+    );
+  });
+
+  it("links to the same search in English", async () => {
+    await renderHome("consultType=video", "hi");
+
+    const switcher = screen.getAllByTestId("language-switcher")[0];
+    expect(within(switcher).getByTestId("language-hi")).toHaveAttribute(
+      "aria-current",
+      "true"
+    );
+    expect(within(switcher).getByTestId("language-en")).toHaveAttribute(
+      "href",
+      "/en?consultType=video"
+    );
+  });
+});
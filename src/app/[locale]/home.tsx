@@ -0,0 +1,168 @@
+"use client";
+import { useState } from "react";
+import { usePathname, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import SearchAutocomplete from "@/components/SearchAutocomplete";
+import FilterSidebar from "@/components/FilterSidebar";
+import DoctorResults from "@/components/DoctorResults";
+import ShortlistDrawer from "@/components/ShortlistDrawer";
+import RecentlyViewed from "@/components/RecentlyViewed";
+import SiteFooter from "@/components/SiteFooter";
+import SkipLink from "@/components/SkipLink";
+import { FiltersIcon } from "@/components/icons";
+import useDoctorFilters from "@/hooks/useDoctorFilters";
+import useDoctors from "@/hooks/useDoctors";
+import useI18n from "@/hooks/useI18n";
+import useLocalStore from "@/hooks/useLocalStore";
+import useScrollRestoration from "@/hooks/useScrollRestoration";
+import {
+  clearRecentSearches,
+  recentSearchesStore,
+  rememberSearch,
+} from "@/lib/recent";
+import type { DoctorsResponse } from "@/lib/doctors/types";
+
+interface HomeProps {
+  // Server-rendered results for the URL the page was requested with
+  initialData?: DoctorsResponse;
+}
+
+export default function Home({ initialData }: HomeProps) {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { t, href } = useI18n();
+
+  // Filter states, kept in sync with the URL
+  const filters = useDoctorFilters({
+    syncUrl: true,
+    specialties: initialData?.specialties,
+  });
+  const { query, update, reset } = filters;
+  const { data, loading, error } = useDoctors(query, initialData);
+
+  const recentSearches = useLocalStore(recentSearchesStore);
+
+  // Mobile menu state
+  const [mobileFiltersOpen, setMobileFiltersOpen] = useState(false);
+
+  // Come back to the same spot after opening a profile
+  useScrollRestoration(`${pathname}?${searchParams}`, !loading);
+
+  // Shared by the header (desktop) and page (mobile) search boxes
+  const searchProps = {
+    value: query.search,
+    onChange: filters.setSearch,
+    onSelect: filters.selectSuggestion,
+    label: t("home.searchLabel"),
+    placeholder: t("home.searchPlaceholder"),
+    recentSearches,
+    onClearRecent: clearRecentSearches,
+    onSubmit: rememberSearch,
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <SkipLink href="#results">{t("nav.skipToResults")}</SkipLink>
+      {/* Header */}
+      <header className="bg-blue-600 sticky top-0 z-50 shadow-md">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center">
+            {/* Logo */}
+            <Link href={href("/")} className="text-white font-bold text-xl">
+              HealthCare
+            </Link>
+          </div>
+
+          {/* Global search bar for desktop */}
+          <div className="hidden md:block w-1/2 ">
+            <SearchAutocomplete
+              {...searchProps}
+              inputTestId="header-search"
+              variant="header"
+            />
+          </div>
+
+          <div className="flex items-center gap-4">
+            <Link
+              href={href("/clinics")}
+              className="text-sm text-blue-100 hover:text-white"
+            >
+              {t("nav.clinics")}
+            </Link>
+            <LanguageSwitcher />
+            <ShortlistDrawer />
+          </div>
+        </div>
+      </header>
+
+      <main
+        id="main-content"
+        tabIndex={-1}
+        className="container mx-auto px-4 py-6 focus:outline-none"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-gray-800">
+            {t("home.heading")}
+          </h1>
+
+          {/* Mobile filters button */}
+          <button
+            type="button"
+            className="flex items-center md:hidden bg-blue-50 text-blue-600 px-3 py-1 rounded-lg"
+            onClick={() => setMobileFiltersOpen(true)}
+            aria-haspopup="dialog"
+            aria-expanded={mobileFiltersOpen}
+            aria-controls="filter-panel"
+            data-testid="open-filters"
+          >
+            <FiltersIcon className="h-5 w-5 mr-1" />
+            {t("home.filters")}
+          </button>
+        </div>
+
+        {/* Mobile search for search page */}
+        <div className="md:hidden mb-6">
+          <SearchAutocomplete
+            {...searchProps}
+            inputTestId="autocomplete-input"
+          />
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <FilterSidebar
+            query={query}
+            specialties={data?.specialties ?? []}
+            options={data?.options ?? null}
+            facets={data?.facets ?? null}
+            origin={data?.origin ?? null}
+            onChange={update}
+            onClearAll={reset}
+            mobileOpen={mobileFiltersOpen}
+            onClose={() => setMobileFiltersOpen(false)}
+          />
+
+          {/* Doctor List */}
+          <section
+            id="results"
+            tabIndex={-1}
+            aria-label={t("common.doctors")}
+            className="w-full md:w-3/4 scroll-mt-20 focus:outline-none"
+          >
+            <RecentlyViewed />
+            <DoctorResults
+              query={query}
+              data={data}
+              loading={loading}
+              error={error}
+              onChange={update}
+              onClearAll={reset}
+            />
+          </section>
+        </div>
+      </main>
+
+      <SiteFooter />
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import "../globals.css";
+import { fontClassName } from "../fonts";
+import LocaleProvider from "@/components/LocaleProvider";
+import SkipLink from "@/components/SkipLink";
+import { intlLocales, isLocale, locales } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+import { siteName, siteUrl } from "@/lib/site";
+
+// Public pages are rendered once per language. Other prefixes are 404s, checked
+// in the layout rather than with dynamicParams = false: that would be inherited
+// by every page below and 404 clinics and cities added after the build.
+export function generateStaticParams() {
+  return locales.map((locale) => ({ locale }));
+}
+
+interface LocaleLayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: Omit<LocaleLayoutProps, "children">): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+  const { t } = getI18n(locale);
+
+  return {
+    metadataBase: new URL(siteUrl),
+    title: {
+      default: `${t("meta.title")} | ${siteName}`,
+      template: `%s | ${siteName}`,
+    },
+    description: t("meta.description"),
+    openGraph: {
+      siteName,
+      type: "website",
+      locale: intlLocales[locale].replace("-", "_"),
+    },
+  };
+}
+
+export default async function LocaleLayout({
+  children,
+  params,
+}: Readonly<LocaleLayoutProps>) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+  const { t } = getI18n(locale);
+
+  return (
+    <html lang={locale} suppressHydrationWarning>
+      <body className={`${fontClassName} antialiased`}>
+        <LocaleProvider locale={locale}>
+          <SkipLink href="#main-content">{t("nav.skipToContent")}</SkipLink>
+          {children}
+        </LocaleProvider>
+      </body>
+    </html>
+  );
+}
@@ -0,0 +1,51 @@
+import { Suspense } from "react";
+import type { Metadata } from "next";
+import Homepage from "./home";
+import { getDoctorsResponse } from "@/lib/doctors/listing";
+import type { DoctorsResponse } from "@/lib/doctors/types";
+import { localeAlternates, type Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+
+interface HomePageProps {
+  params: Promise<{ locale: Locale }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export async function generateMetadata({
+  params,
+}: HomePageProps): Promise<Metadata> {
+  const { locale } = await params;
+  const { t } = getI18n(locale);
+  return {
+    title: { absolute: t("meta.homeTitle") },
+    description: t("meta.homeDescription"),
+    alternates: localeAlternates(locale, "/"),
+  };
+}
+
+// Render the results for the requested filters on the server so the first
+// paint (and crawlers) get real content, then hand over to the client
+export default async function Home({
+  params: pageParams,
+  searchParams,
+}: HomePageProps) {
+  const { locale } = await pageParams;
+  const params = new URLSearchParams();
+  Object.entries(await searchParams).forEach(([key, value]) =>
+    [value ?? []].flat().forEach((item) => params.append(key, item))
+  );
+
+  let initialData: DoctorsResponse | undefined;
+  try {
+    initialData = await getDoctorsResponse(params);
+  } catch (err) {
+    // Fall back to loading on the client
+    console.error(err);
+  }
+
+  return (
+    <Suspense fallback={<div>{getI18n(locale).t("common.loading")}</div>}>
+      <Homepage initialData={initialData} />
+    </Suspense>
+  );
+}
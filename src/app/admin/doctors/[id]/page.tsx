@@ -0,0 +1,34 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import DoctorForm from "@/components/DoctorForm";
+import { findDoctor } from "@/lib/doctors/query";
+import { loadDoctors } from "@/lib/doctors/sources";
+
+export const dynamic = "force-dynamic";
+
+interface EditDoctorPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: EditDoctorPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const doctor = findDoctor(await loadDoctors(), decodeURIComponent(id));
+  return { title: doctor ? `Edit ${doctor.name}` : "Doctor not found" };
+}
+
+export default async function EditDoctorPage({ params }: EditDoctorPageProps) {
+  const { id } = await params;
+  const doctor = findDoctor(await loadDoctors(), decodeURIComponent(id));
+  if (!doctor) notFound();
+
+  return (
+    <div className="max-w-3xl">
+      <h1 className="text-2xl font-bold text-gray-800 mb-6">
+        Edit {doctor.name}
+      </h1>
+      <DoctorForm doctor={doctor} />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+import DoctorForm from "@/components/DoctorForm";
+
+export const metadata: Metadata = {
+  title: "Add doctor",
+};
+
+export default function NewDoctorPage() {
+  return (
+    <div className="max-w-3xl">
+      <h1 className="text-2xl font-bold text-gray-800 mb-6">Add doctor</h1>
+      <DoctorForm />
+    </div>
+  );
+}
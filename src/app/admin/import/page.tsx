@@ -0,0 +1,19 @@
+import type { Metadata } from "next";
+import RosterImport from "@/components/RosterImport";
+
+export const metadata: Metadata = {
+  title: "Import doctors",
+};
+
+export default function ImportDoctorsPage() {
+  return (
+    <div className="max-w-4xl">
+      <h1 className="text-2xl font-bold text-gray-800 mb-2">Import doctors</h1>
+      <p className="text-sm text-gray-600 mb-6">
+        Every row is checked before anything is saved. If any row has a problem,
+        nothing is imported and the problems are listed by row.
+      </p>
+      <RosterImport />
+    </div>
+  );
+}
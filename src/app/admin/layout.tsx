@@ -0,0 +1,69 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import "../globals.css";
+import { fontClassName } from "../fonts";
+import SkipLink from "@/components/SkipLink";
+
+export const metadata: Metadata = {
+  title: { default: "Admin", template: "%s | Admin" },
+  robots: { index: false },
+};
+
+// A root layout of its own: the admin sits outside /[locale] and stays in
+// English
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <html lang="en">
+      <body className={`${fontClassName} antialiased`}>
+        <SkipLink href="#main-content">Skip to main content</SkipLink>
+        <div className="min-h-screen bg-gray-50">
+          <header className="bg-gray-800 sticky top-0 z-50 shadow-md">
+            <div className="container mx-auto px-4 py-3 flex flex-wrap items-center justify-between gap-2">
+              <Link href="/admin" className="text-white font-bold text-xl">
+                HealthCare Admin
+              </Link>
+              <nav className="flex items-center gap-4 text-sm">
+                <Link href="/admin" className="text-gray-300 hover:text-white">
+                  Doctors
+                </Link>
+                <Link
+                  href="/admin/doctors/new"
+                  className="text-gray-300 hover:text-white"
+                >
+                  Add doctor
+                </Link>
+                <Link
+                  href="/admin/reviews"
+                  className="text-gray-300 hover:text-white"
+                >
+                  Reviews
+                </Link>
+                <Link
+                  href="/admin/import"
+                  className="text-gray-300 hover:text-white"
+                >
+                  Import
+                </Link>
+                <Link href="/" className="text-gray-300 hover:text-white">
+                  View site
+                </Link>
+              </nav>
+            </div>
+          </header>
+
+          <main
+            id="main-content"
+            tabIndex={-1}
+            className="container mx-auto px-4 py-6 focus:outline-none"
+          >
+            {children}
+          </main>
+        </div>
+      </body>
+    </html>
+  );
+}
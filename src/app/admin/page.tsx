@@ -0,0 +1,130 @@
+import Link from "next/link";
+import DeleteDoctorButton from "@/components/DeleteDoctorButton";
+import { formatExperience, formatFees } from "@/lib/doctors/format";
+import { doctorPath } from "@/lib/doctors/seo";
+import { loadRoster } from "@/lib/doctors/sources";
+
+// Always show the roster as saved
+export const dynamic = "force-dynamic";
+
+export default async function AdminDoctorsPage() {
+  const { doctors, rejected } = await loadRoster();
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">
+          Doctors ({doctors.length})
+        </h1>
+        <div className="flex gap-2">
+          <Link
+            href="/admin/import"
+            className="px-4 py-2 border border-gray-300 bg-white text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            Import
+          </Link>
+          <Link
+            href="/admin/doctors/new"
+            data-testid="admin-add-doctor"
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Add doctor
+          </Link>
+        </div>
+      </div>
+
+      {rejected.length > 0 && (
+        <div
+          className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-4 rounded-lg mb-6 text-sm"
+          data-testid="admin-rejected"
+        >
+          <p className="font-medium mb-1">
+            {rejected.length === 1
+              ? "1 record can't be shown on the site:"
+              : `${rejected.length} records can't be shown on the site:`}
+          </p>
+          <ul className="list-disc pl-5">
+            {rejected.map((record) => (
+              <li key={record.index}>
+                #{record.index + 1} (id {record.id ?? "unknown"}):{" "}
+                {record.issues.join("; ")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-700">
+          <thead className="bg-gray-100 text-gray-600">
+            <tr>
+              <th className="p-3 font-semibold">Name</th>
+              <th className="p-3 font-semibold">Specialities</th>
+              <th className="p-3 font-semibold">Clinic</th>
+              <th className="p-3 font-semibold">Fees</th>
+              <th className="p-3 font-semibold">Experience</th>
+              <th className="p-3 font-semibold">Consults</th>
+              <th className="p-3 font-semibold sr-only">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {doctors.map((doctor) => (
+              <tr
+                key={doctor.id}
+                className="border-t border-gray-100"
+                data-testid="admin-doctor-row"
+              >
+                <td className="p-3">
+                  <Link
+                    href={`/admin/doctors/${encodeURIComponent(doctor.id)}`}
+                    className="font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    {doctor.name}
+                  </Link>
+                  <div className="text-xs text-gray-400">#{doctor.id}</div>
+                </td>
+                <td className="p-3">
+                  {doctor.specialities.map((spec) => spec.name).join(", ")}
+                </td>
+                <td className="p-3">
+                  {doctor.clinic.name}
+                  <div className="text-xs text-gray-500">
+                    {[
+                      doctor.clinic.address.locality,
+                      doctor.clinic.address.city,
+                    ]
+                      .filter(Boolean)
+                      .join(", ")}
+                  </div>
+                </td>
+                <td className="p-3 whitespace-nowrap">
+                  {formatFees(doctor.fees)}
+                </td>
+                <td className="p-3 whitespace-nowrap">
+                  {formatExperience(doctor.experienceYears)}
+                </td>
+                <td className="p-3 whitespace-nowrap">
+                  {[
+                    doctor.video_consult && "Video",
+                    doctor.in_clinic && "Clinic",
+                  ]
+                    .filter(Boolean)
+                    .join(", ") || "None"}
+                </td>
+                <td className="p-3 whitespace-nowrap text-right space-x-3">
+                  <Link
+                    href={doctorPath(doctor.id)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    View
+                  </Link>
+                  <DeleteDoctorButton doctor={doctor} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
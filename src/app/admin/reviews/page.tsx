@@ -0,0 +1,102 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import ModerateReviewButtons from "@/components/ModerateReviewButtons";
+import RatingStars from "@/components/RatingStars";
+import { doctorPath } from "@/lib/doctors/seo";
+import { loadDoctors } from "@/lib/doctors/sources";
+import { listReviews } from "@/lib/reviews/store";
+import type { ReviewStatus } from "@/lib/reviews/types";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Reviews",
+};
+
+const tabs: { status: ReviewStatus; label: string }[] = [
+  { status: "pending", label: "Pending" },
+  { status: "approved", label: "Approved" },
+  { status: "rejected", label: "Rejected" },
+];
+
+interface ReviewsPageProps {
+  searchParams: Promise<{ status?: string }>;
+}
+
+export default async function ReviewsPage({ searchParams }: ReviewsPageProps) {
+  const requested = (await searchParams).status;
+  const status =
+    tabs.find((tab) => tab.status === requested)?.status ?? "pending";
+
+  const [reviews, doctors] = await Promise.all([
+    listReviews({ status }),
+    loadDoctors(),
+  ]);
+  const names = new Map(doctors.map((doctor) => [doctor.id, doctor.name]));
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold text-gray-800 mb-4">Reviews</h1>
+
+      <nav aria-label="Review status" className="flex gap-2 mb-6">
+        {tabs.map((tab) => (
+          <Link
+            key={tab.status}
+            href={`/admin/reviews?status=${tab.status}`}
+            aria-current={tab.status === status ? "page" : undefined}
+            className={`px-3 py-1 rounded-full text-sm ${
+              tab.status === status
+                ? "bg-blue-600 text-white"
+                : "bg-white text-blue-700 shadow-sm hover:bg-blue-50"
+            }`}
+          >
+            {tab.label}
+          </Link>
+        ))}
+      </nav>
+
+      {reviews.length === 0 ? (
+        <p className="text-gray-500">No {status} reviews.</p>
+      ) : (
+        <ul className="space-y-3">
+          {reviews.map((review) => (
+            <li
+              key={review.id}
+              data-testid="admin-review"
+              className="bg-white p-4 rounded-lg shadow-sm"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <RatingStars rating={review.rating} />
+                  <span className="sr-only">
+                    {review.rating} out of 5 stars
+                  </span>
+                  <span className="font-medium text-gray-800">
+                    {review.name}
+                  </span>
+                  <span className="text-gray-400">on</span>
+                  <Link
+                    href={doctorPath(review.doctorId)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    {names.get(review.doctorId) ?? `#${review.doctorId}`}
+                  </Link>
+                  <time
+                    dateTime={review.createdAt}
+                    className="text-xs text-gray-400"
+                  >
+                    {new Date(review.createdAt).toLocaleString("en-IN")}
+                  </time>
+                </div>
+                <ModerateReviewButtons review={review} />
+              </div>
+              <p className="text-sm text-gray-600 mt-2 whitespace-pre-line">
+                {review.text}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
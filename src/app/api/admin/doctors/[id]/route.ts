@@ -0,0 +1,63 @@
+import { revalidatePath } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteDoctor,
+  DoctorNotFoundError,
+  InvalidDoctorError,
+  updateDoctor,
+} from "@/lib/doctors/roster-store";
+import type { RawDoctor } from "@/lib/doctors/types";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/admin/doctors/:id <doctor record>
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const doctor = await updateDoctor(id, body as RawDoctor);
+    revalidatePath("/", "layout");
+    return NextResponse.json({ doctor });
+  } catch (err) {
+    if (err instanceof InvalidDoctorError) {
+      return NextResponse.json(
+        { error: "Please correct the doctor details", issues: err.issues },
+        { status: 400 }
+      );
+    }
+    if (err instanceof DoctorNotFoundError) {
+      return NextResponse.json({ error: "Doctor not found" }, { status: 404 });
+    }
+    console.error(err);
+    return NextResponse.json(
+      { error: "Failed to save doctor" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/doctors/:id
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    await deleteDoctor(id);
+    revalidatePath("/", "layout");
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    if (err instanceof DoctorNotFoundError) {
+      return NextResponse.json({ error: "Doctor not found" }, { status: 404 });
+    }
+    console.error(err);
+    return NextResponse.json(
+      { error: "Failed to delete doctor" },
+      { status: 500 }
+    );
+  }
+}
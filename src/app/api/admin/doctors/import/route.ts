@@ -0,0 +1,48 @@
+import { revalidatePath } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+import { ImportFileError } from "@/lib/admin/csv";
+import { parseImport } from "@/lib/admin/import";
+import { importDoctors } from "@/lib/doctors/roster-store";
+
+// POST /api/admin/doctors/import { format: "csv" | "json", text, replace? }
+// Imports every record or none: if any row is invalid the response lists the
+// problems per row and the roster is left as it was.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const format = body?.format;
+  if (
+    (format !== "csv" && format !== "json") ||
+    typeof body.text !== "string"
+  ) {
+    return NextResponse.json(
+      { error: 'format ("csv" or "json") and text are required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { records, errors } = parseImport(body.text, format);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: `${errors.length} of ${records.length + errors.length} records can't be imported`,
+          rows: errors,
+        },
+        { status: 422 }
+      );
+    }
+
+    const result = await importDoctors(records, body.replace === true);
+    revalidatePath("/", "layout");
+    return NextResponse.json(result);
+  } catch (err) {
+    if (err instanceof ImportFileError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error(err);
+    return NextResponse.json(
+      { error: "Failed to import doctors" },
+      { status: 500 }
+    );
+  }
+}
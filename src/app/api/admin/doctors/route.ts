@@ -0,0 +1,38 @@
+import { revalidatePath } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createDoctor,
+  DuplicateDoctorError,
+  InvalidDoctorError,
+} from "@/lib/doctors/roster-store";
+import type { RawDoctor } from "@/lib/doctors/types";
+
+// POST /api/admin/doctors <doctor record, id optional>
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const doctor = await createDoctor(body as RawDoctor);
+    // Listings, profiles and the sitemap are cached for an hour
+    revalidatePath("/", "layout");
+    return NextResponse.json({ doctor }, { status: 201 });
+  } catch (err) {
+    if (err instanceof InvalidDoctorError) {
+      return NextResponse.json(
+        { error: "Please correct the doctor details", issues: err.issues },
+        { status: 400 }
+      );
+    }
+    if (err instanceof DuplicateDoctorError) {
+      return NextResponse.json({ error: err.message }, { status: 409 });
+    }
+    console.error(err);
+    return NextResponse.json(
+      { error: "Failed to save doctor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { revalidatePath } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+import { moderateReview, ReviewNotFoundError } from "@/lib/reviews/store";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/admin/reviews/:id { status: "pending" | "approved" | "rejected" }
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const status = body?.status;
+  if (status !== "pending" && status !== "approved" && status !== "rejected") {
+    return NextResponse.json(
+      { error: 'status must be "pending", "approved" or "rejected"' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const review = await moderateReview(id, status);
+    // Ratings show on cached listings and profiles
+    revalidatePath("/", "layout");
+    return NextResponse.json({ review });
+  } catch (err) {
+    if (err instanceof ReviewNotFoundError) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    console.error(err);
+    return NextResponse.json(
+      { error: "Failed to update review" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listReviews } from "@/lib/reviews/store";
+import type { ReviewStatus } from "@/lib/reviews/types";
+
+const statuses: ReviewStatus[] = ["pending", "approved", "rejected"];
+
+// GET /api/admin/reviews?status=pending|approved|rejected&doctorId=...
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const status = params.get("status");
+  if (status && !statuses.includes(status as ReviewStatus)) {
+    return NextResponse.json(
+      { error: `status must be one of ${statuses.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const reviews = await listReviews({
+      status: (status as ReviewStatus) || undefined,
+      doctorId: params.get("doctorId") || undefined,
+    });
+    return NextResponse.json({ reviews });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      { error: "Failed to load reviews" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { listSlots } from "@/lib/booking/availability";
+import { findDoctor } from "@/lib/doctors/query";
+import { loadDoctors } from "@/lib/doctors/sources";
+import { POST } from "./route";
+
+const doctorId = "111601";
+const patient = { name: "Asha Verma", phone: "9876543210" };
+
+const book = (start: string) =>
+  POST(
+    new NextRequest("http://localhost/api/bookings", {
+      method: "POST",
+      body: JSON.stringify({ doctorId, mode: "video", start, patient }),
+    })
+  );
+
+describe("POST /api/bookings", () => {
+  it("books an open slot once", async () => {
+    const doctor = findDoctor(await loadDoctors(), doctorId)!;
+    const [{ slots }] = listSlots(doctor, "video", []);
+
+    expect((await book(slots[0].start)).status).toBe(201);
+    expect((await book(slots[0].start)).status).toBe(409);
+  });
+
+  it("rejects starts past the booking window", async () => {
+    const start = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+    start.setUTCHours(13, 30, 0, 0);
+
+    expect((await book(start.toISOString())).status).toBe(409);
+    expect((await book("2300-01-01T13:30:00.000Z")).status).toBe(409);
+  });
+});
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { reserveSlot, SlotUnavailableError } from "@/lib/booking/store";
+import { validatePatient } from "@/lib/booking/validation";
+import { findDoctor } from "@/lib/doctors/query";
+import { loadDoctors } from "@/lib/doctors/sources";
+
+// POST /api/bookings { doctorId, mode, start, patient }
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { doctorId, mode, start } = body;
+  if (
+    typeof doctorId !== "string" ||
+    (mode !== "video" && mode !== "clinic") ||
+    typeof start !== "string"
+  ) {
+    return NextResponse.json(
+      { error: "doctorId, mode and start are required" },
+      { status: 400 }
+    );
+  }
+
+  const result = validatePatient(body.patient);
+  if (result.errors) {
+    return NextResponse.json(
+      {
+        error: "Please correct the patient details",
+        fieldErrors: result.errors,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const doctor = findDoctor(await loadDoctors(), doctorId);
+    if (!doctor) {
+      return NextResponse.json({ error: "Doctor not found" }, { status: 404 });
+    }
+
+    const booking = await reserveSlot(doctor, {
+      doctorId,
+      mode,
+      start,
+      patient: result.patient,
+    });
+    return NextResponse.json({ booking }, { status: 201 });
+  } catch (err) {
+    if (err instanceof SlotUnavailableError) {
+      return NextResponse.json({ error: err.message }, { status: 409 });
+    }
+    console.error(err);
+    return NextResponse.json(
+      { error: "Failed to book appointment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listSlots } from "@/lib/booking/availability";
+import { listBookings } from "@/lib/booking/store";
+import type { AvailabilityResponse } from "@/lib/booking/types";
+import { findDoctor } from "@/lib/doctors/query";
+import { loadDoctors } from "@/lib/doctors/sources";
+import type { ConsultType } from "@/lib/doctors/types";
+
+// GET /api/doctors/:id/availability?mode=video|clinic
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const mode = request.nextUrl.searchParams.get("mode");
+
+  if (mode !== "video" && mode !== "clinic") {
+    return NextResponse.json(
+      { error: 'mode must be "video" or "clinic"' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const doctor = findDoctor(await loadDoctors(), id);
+    if (!doctor) {
+      return NextResponse.json({ error: "Doctor not found" }, { status: 404 });
+    }
+
+    const body: AvailabilityResponse = {
+      mode: mode as ConsultType,
+      days: listSlots(doctor, mode, await listBookings(doctor.id)),
+    };
+    return NextResponse.json(body);
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      { error: "Failed to load availability" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findDoctor } from "@/lib/doctors/query";
+import { loadDoctors } from "@/lib/doctors/sources";
+import { summarizeRatings } from "@/lib/reviews/ratings";
+import { listReviews, submitReview } from "@/lib/reviews/store";
+import type { ReviewsResponse } from "@/lib/reviews/types";
+import { validateReview } from "@/lib/reviews/validation";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/doctors/:id/reviews -> approved reviews, newest first
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const doctor = findDoctor(await loadDoctors(), id);
+    if (!doctor) {
+      return NextResponse.json({ error: "Doctor not found" }, { status: 404 });
+    }
+
+    const reviews = await listReviews({
+      doctorId: doctor.id,
+      status: "approved",
+    });
+    const body: ReviewsResponse = {
+      reviews,
+      summary: summarizeRatings(reviews)[doctor.id] ?? null,
+    };
+    return NextResponse.json(body);
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      { error: "Failed to load reviews" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/doctors/:id/reviews { rating, text, name }
+// The review is held for moderation and isn't shown until approved.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = validateReview(body);
+  if (result.errors) {
+    return NextResponse.json(
+      { error: "Please correct the review", fieldErrors: result.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const doctor = findDoctor(await loadDoctors(), id);
+    if (!doctor) {
+      return NextResponse.json({ error: "Doctor not found" }, { status: 404 });
+    }
+
+    const review = await submitReview(doctor.id, result.review);
+    return NextResponse.json({ review }, { status: 201 });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      { error: "Failed to save review" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDoctorsResponse } from "@/lib/doctors/listing";
+
+// GET /api/doctors?<filters, see encodeQuery in url-state.ts>
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json(
+      await getDoctorsResponse(request.nextUrl.searchParams)
+    );
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      { error: "Failed to load doctors data" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadDoctors } from "@/lib/doctors/sources";
+import { getSearchIndex } from "@/lib/search/search-index";
+import { suggest, type SuggestResponse } from "@/lib/search/suggest";
+
+// GET /api/suggest?q=&limit=
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const query = searchParams.get("q")?.trim() ?? "";
+  const limit = parseInt(searchParams.get("limit") ?? "", 10);
+
+  try {
+    const index = getSearchIndex(await loadDoctors());
+    const body: SuggestResponse = {
+      query,
+      groups: query ? suggest(index, query, limit > 0 ? limit : 5) : [],
+    };
+    return NextResponse.json(body);
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json(
+      { error: "Failed to load suggestions" },
+      { status: 500 }
+    );
+  }
+}
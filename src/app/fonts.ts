@@ -0,0 +1,14 @@
+import { Geist, Geist_Mono } from "next/font/google";
+
+const geistSans = Geist({
+  variable: "--font-geist-sans",
+  subsets: ["latin"],
+});
+
+const geistMono = Geist_Mono({
+  variable: "--font-geist-mono",
+  subsets: ["latin"],
+});
+
+// Font variables for the <body> of each root layout
+export const fontClassName = `${geistSans.variable} ${geistMono.variable}`;
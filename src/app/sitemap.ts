@@ -0,0 +1,53 @@
+import type { MetadataRoute } from "next";
+import { clinicPath, listClinics } from "@/lib/doctors/clinics";
+import { doctorPath, listingPages, specialityPath } from "@/lib/doctors/seo";
+import { loadDoctors } from "@/lib/doctors/sources";
+import { intlLocales, localePath, locales } from "@/lib/i18n/config";
+import { absoluteUrl } from "@/lib/site";
+
+export const revalidate = 3600;
+
+type Entry = Omit<MetadataRoute.Sitemap[number], "url">;
+
+// One entry per language for each page, each listing the others
+function localized(path: string, entry: Entry): MetadataRoute.Sitemap {
+  const languages = Object.fromEntries(
+    locales.map((locale) => [
+      intlLocales[locale],
+      absoluteUrl(localePath(locale, path)),
+    ])
+  );
+  return locales.map((locale) => ({
+    url: absoluteUrl(localePath(locale, path)),
+    ...entry,
+    alternates: { languages },
+  }));
+}
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const doctors = await loadDoctors();
+  const pages = listingPages(doctors);
+
+  return [
+    ...localized("/", { changeFrequency: "daily", priority: 1 }),
+    ...pages.flatMap((page) =>
+      localized(specialityPath(page.speciality, page.city), {
+        changeFrequency: "weekly",
+        priority: page.city ? 0.6 : 0.8,
+      })
+    ),
+    ...localized("/clinics", { changeFrequency: "weekly", priority: 0.7 }),
+    ...listClinics(doctors).flatMap((clinic) =>
+      localized(clinicPath(clinic.id), {
+        changeFrequency: "weekly",
+        priority: 0.6,
+      })
+    ),
+    ...doctors.flatMap((doctor) =>
+      localized(doctorPath(doctor.id), {
+        changeFrequency: "monthly",
+        priority: 0.5,
+      })
+    ),
+  ];
+}
@@ -0,0 +1,41 @@
+"use client";
+import { useCallback, useState } from "react";
+import { useRouter } from "next/navigation";
+import BookingDialog from "@/components/BookingDialog";
+import useI18n from "@/hooks/useI18n";
+import type { Doctor } from "@/lib/doctors/types";
+
+interface BookButtonProps {
+  doctor: Doctor;
+  className?: string;
+}
+
+// "Book Now" button that opens the booking flow for one doctor
+export default function BookButton({ doctor, className }: BookButtonProps) {
+  const { t } = useI18n();
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const handleClose = useCallback(() => setOpen(false), []);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        disabled={!doctor.video_consult && !doctor.in_clinic}
+        data-testid="book-now"
+        className={`px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition shadow-sm disabled:opacity-50 ${className ?? ""}`}
+      >
+        {t("card.bookNow")}
+      </button>
+      {open && (
+        <BookingDialog
+          doctor={doctor}
+          onClose={handleClose}
+          // Server-rendered availability badges pick up the new booking
+          onBooked={() => router.refresh()}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,268 @@
+"use client";
+import { useEffect, useState } from "react";
+import PatientForm from "@/components/PatientForm";
+import SlotPicker from "@/components/SlotPicker";
+import { CloseIcon } from "@/components/icons";
+import useDialog from "@/hooks/useDialog";
+import useI18n from "@/hooks/useI18n";
+import { formatSlot } from "@/lib/booking/format";
+import type {
+  AvailabilityResponse,
+  Booking,
+  DaySlots,
+  Patient,
+  Slot,
+} from "@/lib/booking/types";
+import type { PatientErrors } from "@/lib/booking/validation";
+import type { ConsultType, Doctor } from "@/lib/doctors/types";
+import type { MessageKey } from "@/lib/i18n/translate";
+
+interface BookingDialogProps {
+  doctor: Doctor;
+  onClose: () => void;
+  onBooked?: (booking: Booking) => void;
+}
+
+const modeLabels: Record<ConsultType, MessageKey> = {
+  video: "common.videoConsult",
+  clinic: "common.inClinic",
+};
+
+// Pick a consult mode and slot, enter patient details, reserve the slot
+export default function BookingDialog({
+  doctor,
+  onClose,
+  onBooked,
+}: BookingDialogProps) {
+  const { locale, t } = useI18n();
+  const modes = (["clinic", "video"] as ConsultType[]).filter((mode) =>
+    mode === "video" ? doctor.video_consult : doctor.in_clinic
+  );
+
+  const [mode, setMode] = useState<ConsultType | undefined>(modes[0]);
+  const [days, setDays] = useState<DaySlots[] | null>(null);
+  const [selected, setSelected] = useState<Slot | null>(null);
+  const [step, setStep] = useState<"slot" | "details" | "done">("slot");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [serverErrors, setServerErrors] = useState<PatientErrors>();
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [reload, setReload] = useState(0);
+
+  // Load open slots for the chosen mode
+  useEffect(() => {
+    if (!mode) return;
+    const controller = new AbortController();
+
+    setDays(null);
+    fetch(
+      `/api/doctors/${encodeURIComponent(doctor.id)}/availability?mode=${mode}`,
+      {
+        signal: controller.signal,
+      }
+    )
+      .then((response) => {
+        if (!response.ok) throw new Error("Failed to load slots");
+        return response.json();
+      })
+      .then((data: AvailabilityResponse) => setDays(data.days))
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(t("booking.loadFailed"));
+        console.error(err);
+      });
+
+    return () => controller.abort();
+  }, [doctor.id, mode, reload, t]);
+
+  // Keep focus inside and close on Escape
+  const dialogRef = useDialog<HTMLDivElement>(true, onClose);
+
+  const handleModeChange = (next: ConsultType) => {
+    setMode(next);
+    setSelected(null);
+    setError(null);
+  };
+
+  const handleSubmit = async (patient: Patient) => {
+    if (!selected || !mode) return;
+
+    setSubmitting(true);
+    setError(null);
+    setServerErrors(undefined);
+
+    try {
+      const response = await fetch("/api/bookings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          doctorId: doctor.id,
+          mode,
+          start: selected.start,
+          patient,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.status === 409) {
+        // Someone else took the slot, pick again from fresh availability
+        setError(t("booking.slotTaken"));
+        setSelected(null);
+        setStep("slot");
+        setReload((count) => count + 1);
+      } else if (!response.ok) {
+        setError(t("booking.failed"));
+        setServerErrors(data.fieldErrors);
+      } else {
+        setBooking(data.booking);
+        setStep("done");
+        onBooked?.(data.booking);
+      }
+    } catch (err) {
+      setError(t("booking.failedRetry"));
+      console.error(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-end md:items-center justify-center p-0 md:p-4"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={`booking-title-${doctor.id}`}
+        data-testid="booking-dialog"
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white w-full md:max-w-lg rounded-t-lg md:rounded-lg shadow-lg p-5 max-h-[90vh] overflow-y-auto text-left"
+      >
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2
+              id={`booking-title-${doctor.id}`}
+              className="text-lg font-semibold text-gray-800"
+            >
+              {t("booking.title")}
+            </h2>
+            <p className="text-sm text-gray-600">{doctor.name}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label={t("common.close")}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <CloseIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div
+            role="alert"
+            className="bg-red-100 p-3 rounded-lg text-red-700 text-sm mb-4"
+          >
+            {error}
+          </div>
+        )}
+
+        {!mode ? (
+          <p className="text-sm text-gray-600">{t("booking.offline")}</p>
+        ) : step === "done" && booking ? (
+          <div data-testid="booking-confirmation" className="text-center py-4">
+            <p className="text-lg font-semibold text-green-700">
+              {t("booking.confirmed")}
+            </p>
+            <p className="text-gray-700 mt-2">
+              {t("booking.withDoctor", {
+                mode: t(modeLabels[booking.mode]),
+                name: doctor.name,
+              })}
+            </p>
+            <p className="text-gray-700">{formatSlot(booking.start, locale)}</p>
+            <p className="text-xs text-gray-500 mt-2">
+              {t("booking.reference", {
+                reference: booking.id.slice(0, 8).toUpperCase(),
+              })}
+            </p>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-4 px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition"
+            >
+              {t("booking.done")}
+            </button>
+          </div>
+        ) : step === "details" && selected ? (
+          <>
+            <p className="text-sm text-gray-700 mb-3">
+              {t(modeLabels[mode])} &middot;{" "}
+              {formatSlot(selected.start, locale)}
+            </p>
+            <PatientForm
+              submitting={submitting}
+              serverErrors={serverErrors}
+              onSubmit={handleSubmit}
+              onBack={() => setStep("slot")}
+            />
+          </>
+        ) : (
+          <>
+            {modes.length > 1 && (
+              <div
+                className="flex gap-2 mb-4"
+                role="group"
+                aria-label={t("booking.mode")}
+              >
+                {modes.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => handleModeChange(option)}
+                    aria-pressed={mode === option}
+                    data-testid={`booking-mode-${option}`}
+                    className={`flex-1 px-3 py-2 rounded-lg text-sm border ${
+                      mode === option
+                        ? "bg-blue-50 text-blue-700 border-blue-500"
+                        : "bg-white text-gray-700 border-gray-300"
+                    }`}
+                  >
+                    {t(modeLabels[option])}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {days === null ? (
+              <div className="flex justify-center items-center h-32">
+                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+              </div>
+            ) : (
+              <SlotPicker
+                key={mode}
+                days={days}
+                selected={selected}
+                onSelect={setSelected}
+              />
+            )}
+
+            <div className="flex justify-end mt-4">
+              <button
+                type="button"
+                disabled={!selected}
+                onClick={() => setStep("details")}
+                data-testid="booking-continue"
+                className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition shadow-sm disabled:opacity-50"
+              >
+                {t("booking.continue")}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { ClinicIcon } from "@/components/icons";
+import type { Clinic } from "@/lib/doctors/types";
+import type { Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+
+interface ClinicLogoProps {
+  clinic: Pick<Clinic, "name" | "address">;
+  className?: string;
+  locale: Locale;
+}
+
+// The clinic's logo, or a placeholder icon when it has none
+export default function ClinicLogo({
+  clinic,
+  className = "w-16 h-16",
+  locale,
+}: ClinicLogoProps) {
+  return clinic.address.logo_url ? (
+    <img
+      src={clinic.address.logo_url}
+      alt={getI18n(locale).t("profile.logo", { name: clinic.name })}
+      className={`${className} rounded-lg object-contain flex-shrink-0`}
+    />
+  ) : (
+    <div
+      className={`${className} rounded-lg bg-green-50 flex items-center justify-center flex-shrink-0`}
+    >
+      <ClinicIcon className="w-1/2 h-1/2 text-green-500" />
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+"use client";
+import { useEffect, useMemo, useRef, useState } from "react";
+import useI18n from "@/hooks/useI18n";
+import type { Doctor } from "@/lib/doctors/types";
+import {
+  clinicPins,
+  clusterPins,
+  fitView,
+  mapTiles,
+  maxZoom,
+  minZoom,
+  project,
+  tileSize,
+  tileUrl,
+  unproject,
+  type MapView,
+  type Point,
+} from "@/lib/geo/map";
+
+interface ClinicMapProps {
+  doctors: Doctor[];
+  // Doctor whose card is hovered; their pin is highlighted
+  activeId: string | null;
+  onSelectDoctor: (id: string) => void;
+}
+
+// Clinics of the listed doctors on a draggable map. Uses tiles when
+// NEXT_PUBLIC_MAP_TILE_URL is set, otherwise a plain grid.
+export default function ClinicMap({
+  doctors,
+  activeId,
+  onSelectDoctor,
+}: ClinicMapProps) {
+  const { t } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<MapView | null>(null);
+  const drag = useRef<{ start: Point; center: Point } | null>(null);
+
+  const pins = useMemo(() => clinicPins(doctors), [doctors]);
+  const unplaced =
+    doctors.length - pins.reduce((sum, pin) => sum + pin.doctors.length, 0);
+
+  // Track the container size
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setSize({
+        width: entry.contentRect.width,
+        height: entry.contentRect.height,
+      })
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fit the map to the results whenever they change
+  useEffect(() => {
+    if (size.width === 0) return;
+    setView(
+      fitView(
+        pins.map((pin) => pin.coordinates),
+        size.width,
+        size.height
+      )
+    );
+  }, [pins, size.width, size.height]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!view || (e.target as HTMLElement).closest("button")) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = {
+      start: { x: e.clientX, y: e.clientY },
+      center: project(view.center, view.zoom),
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!view || !drag.current) return;
+    const { start, center } = drag.current;
+    setView({
+      zoom: view.zoom,
+      center: unproject(
+        {
+          x: center.x - (e.clientX - start.x),
+          y: center.y - (e.clientY - start.y),
+        },
+        view.zoom
+      ),
+    });
+  };
+
+  const zoomBy = (delta: number) => {
+    if (!view) return;
+    setView({
+      ...view,
+      zoom: Math.min(maxZoom, Math.max(minZoom, view.zoom + delta)),
+    });
+  };
+
+  // Top-left corner of the visible area in world pixels
+  const center = view ? project(view.center, view.zoom) : { x: 0, y: 0 };
+  const origin = {
+    x: center.x - size.width / 2,
+    y: center.y - size.height / 2,
+  };
+  const clusters = view ? clusterPins(pins, view.zoom) : [];
+
+  return (
+    <div
+      ref={containerRef}
+      data-testid="clinic-map"
+      className="relative h-[420px] overflow-hidden rounded-lg bg-blue-50 shadow-sm select-none touch-none cursor-grab"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => (drag.current = null)}
+      onPointerCancel={() => (drag.current = null)}
+    >
+      {view &&
+        (mapTiles.url ? (
+          <Tiles
+            template={mapTiles.url}
+            origin={origin}
+            size={size}
+            zoom={view.zoom}
+          />
+        ) : (
+          <Graticule origin={origin} size={size} zoom={view.zoom} />
+        ))}
+
+      {clusters.map((cluster) => {
+        const doctorCount = cluster.pins.reduce(
+          (sum, pin) => sum + pin.doctors.length,
+          0
+        );
+        const active = cluster.pins.some((pin) =>
+          pin.doctors.some((doctor) => doctor.id === activeId)
+        );
+        const label =
+          cluster.pins.length === 1
+            ? t("map.clinic", {
+                name: cluster.pins[0].name,
+                doctors: t("counts.doctors", { count: doctorCount }),
+              })
+            : t("map.cluster", {
+                clinics: t("counts.clinics", { count: cluster.pins.length }),
+                doctors: t("counts.doctors", { count: doctorCount }),
+              });
+
+        return (
+          <button
+            key={cluster.key}
+            type="button"
+            title={label}
+            aria-label={label}
+            data-testid="map-pin"
+            onClick={() =>
+              cluster.pins.length === 1
+                ? onSelectDoctor(cluster.pins[0].doctors[0].id)
+                : setView(
+                    fitView(
+                      cluster.pins.map((pin) => pin.coordinates),
+                      size.width,
+                      size.height
+                    )
+                  )
+            }
+            style={{
+              left: cluster.position.x - origin.x,
+              top: cluster.position.y - origin.y,
+            }}
+            className={`absolute -translate-x-1/2 -translate-y-full flex items-center justify-center rounded-full border-2 border-white shadow font-semibold text-xs text-white transition ${
+              active
+                ? "z-20 h-9 w-9 bg-red-500 scale-110"
+                : cluster.pins.length > 1
+                  ? "z-10 h-8 w-8 bg-blue-700"
+                  : "z-10 h-7 w-7 bg-blue-500"
+            }`}
+          >
+            {doctorCount}
+          </button>
+        );
+      })}
+
+      <div className="absolute top-2 right-2 z-30 flex flex-col bg-white rounded shadow text-gray-700">
+        <button
+          type="button"
+          onClick={() => zoomBy(1)}
+          aria-label={t("map.zoomIn")}
+          className="px-2 py-1 hover:bg-gray-100"
+        >
+          +
+        </button>
+        <button
+          type="button"
+          onClick={() => zoomBy(-1)}
+          aria-label={t("map.zoomOut")}
+          className="px-2 py-1 border-t hover:bg-gray-100"
+        >
+          −
+        </button>
+      </div>
+
+      {mapTiles.url && mapTiles.attribution && (
+        <div className="absolute bottom-0 right-0 z-30 bg-white/80 px-1 text-[10px] text-gray-600">
+          {mapTiles.attribution}
+        </div>
+      )}
+      {unplaced > 0 && (
+        <div className="absolute bottom-0 left-0 z-30 bg-white/80 px-1 text-[10px] text-gray-600">
+          {t("map.unplaced", { count: unplaced })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface LayerProps {
+  origin: Point;
+  size: { width: number; height: number };
+  zoom: number;
+}
+
+function Tiles({
+  template,
+  origin,
+  size,
+  zoom,
+}: LayerProps & { template: string }) {
+  const count = 2 ** zoom;
+  const tiles = [];
+  for (
+    let x = Math.floor(origin.x / tileSize);
+    x <= Math.floor((origin.x + size.width) / tileSize);
+    x++
+  ) {
+    for (
+      let y = Math.max(0, Math.floor(origin.y / tileSize));
+      y <= Math.min(count - 1, Math.floor((origin.y + size.height) / tileSize));
+      y++
+    ) {
+      // Wrap around the antimeridian
+      const wrapped = ((x % count) + count) % count;
+      tiles.push(
+        <div
+          key={`${x}/${y}`}
+          className="absolute bg-cover"
+          style={{
+            left: x * tileSize - origin.x,
+            top: y * tileSize - origin.y,
+            width: tileSize,
+            height: tileSize,
+            backgroundImage: `url("${tileUrl(template, wrapped, y, zoom)}")`,
+          }}
+        />
+      );
+    }
+  }
+  return <div aria-hidden="true">{tiles}</div>;
+}
+
+// Offline background: latitude / longitude lines at a spacing suited to the zoom
+function Graticule({ origin, size, zoom }: LayerProps) {
+  const step = zoom <= 5 ? 5 : zoom <= 8 ? 1 : zoom <= 11 ? 0.1 : 0.01;
+  const topLeft = unproject(origin, zoom);
+  const bottomRight = unproject(
+    { x: origin.x + size.width, y: origin.y + size.height },
+    zoom
+  );
+
+  const lines = [];
+  for (
+    let lng = Math.ceil(topLeft.lng / step) * step;
+    lng <= bottomRight.lng;
+    lng += step
+  ) {
+    const x = project({ lat: 0, lng }, zoom).x - origin.x;
+    lines.push(
+      <line key={`lng${lng}`} x1={x} x2={x} y1={0} y2={size.height} />
+    );
+  }
+  for (
+    let lat = Math.ceil(bottomRight.lat / step) * step;
+    lat <= topLeft.lat;
+    lat += step
+  ) {
+    const y = project({ lat, lng: 0 }, zoom).y - origin.y;
+    lines.push(<line key={`lat${lat}`} x1={0} x2={size.width} y1={y} y2={y} />);
+  }
+
+  return (
+    <svg
+      aria-hidden="true"
+      className="absolute inset-0"
+      width={size.width}
+      height={size.height}
+    >
+      <g stroke="#bfdbfe" strokeWidth={1}>
+        {lines}
+      </g>
+    </svg>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import type { Doctor } from "@/lib/doctors/types";
+
+interface DeleteDoctorButtonProps {
+  doctor: Doctor;
+}
+
+export default function DeleteDoctorButton({
+  doctor,
+}: DeleteDoctorButtonProps) {
+  const router = useRouter();
+  const [deleting, setDeleting] = useState(false);
+
+  const handleClick = async () => {
+    if (!window.confirm(`Delete ${doctor.name}? This can't be undone.`)) {
+      return;
+    }
+
+    setDeleting(true);
+    try {
+      const response = await fetch(
+        `/api/admin/doctors/${encodeURIComponent(doctor.id)}`,
+        {
+          method: "DELETE",
+          // The admin API only takes changes sent as JSON
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to delete doctor: ${response.status}`);
+      }
+      router.refresh();
+    } catch (err) {
+      window.alert("Couldn't delete the doctor. Please try again.");
+      console.error(err);
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={deleting}
+      aria-label={`Delete ${doctor.name}`}
+      className="text-red-600 hover:text-red-800 disabled:opacity-50"
+    >
+      {deleting ? "Deleting..." : "Delete"}
+    </button>
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+import Link from "next/link";
+import BookButton from "@/components/BookButton";
+import Highlight from "@/components/Highlight";
+import RatingStars from "@/components/RatingStars";
+import ShortlistButton from "@/components/ShortlistButton";
+import {
+  ClinicIcon,
+  ClockIcon,
+  HomeIcon,
+  MapPinIcon,
+  MoneyIcon,
+  VideoIcon,
+} from "@/components/icons";
+import useI18n from "@/hooks/useI18n";
+import { formatSlot } from "@/lib/booking/format";
+import type { AvailabilitySummary } from "@/lib/booking/types";
+import { clinicPath } from "@/lib/doctors/clinics";
+import {
+  doctorPath,
+  physicianJsonLd,
+  serializeJsonLd,
+} from "@/lib/doctors/seo";
+import type { Doctor } from "@/lib/doctors/types";
+import { formatDistance } from "@/lib/geo/coordinates";
+import type { RatingSummary } from "@/lib/reviews/types";
+import { normalizeTerm } from "@/lib/search/tokenize";
+
+interface DoctorCardProps {
+  doctor: Doctor;
+  availability?: AvailabilitySummary;
+  // Search terms to highlight
+  highlight?: string[];
+  // Kilometres from the place the user searched near
+  distanceKm?: number;
+  // Approved reviews, when there are any
+  rating?: RatingSummary;
+}
+
+export default function DoctorCard({
+  doctor,
+  availability,
+  highlight,
+  distanceKm,
+  rating,
+}: DoctorCardProps) {
+  const { locale, t, formatExperience, formatFees, href } = useI18n();
+  // Show languages that matched the search before the others
+  const languages = highlight
+    ? [...doctor.languages].sort(
+        (a, b) =>
+          Number(highlight.includes(normalizeTerm(b))) -
+          Number(highlight.includes(normalizeTerm(a)))
+      )
+    : doctor.languages;
+
+  return (
+    <div
+      data-testid="doctor-card"
+      className="bg-white p-4 rounded-lg shadow-sm hover:shadow-md transition flex flex-col md:flex-row gap-4"
+    >
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: serializeJsonLd(physicianJsonLd(doctor, locale)),
+        }}
+      />
+      <div className="flex-shrink-0">
+        <div className="w-20 h-20 md:w-24 md:h-24 bg-blue-50 rounded-full flex items-center justify-center overflow-hidden border-2 border-blue-100">
+          {doctor.photo ? (
+            <img
+              src={doctor.photo}
+              alt={doctor.name}
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <span className="text-2xl text-blue-500">
+              {doctor.name.charAt(0)}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-grow">
+        <div className="flex justify-between items-start gap-2">
+          <h2
+            data-testid="doctor-name"
+            className="text-xl font-semibold text-gray-800"
+          >
+            <Link
+              href={href(doctorPath(doctor.id))}
+              className="hover:text-blue-600"
+            >
+              <Highlight text={doctor.name} terms={highlight} />
+            </Link>
+          </h2>
+          <ShortlistButton doctor={doctor} />
+        </div>
+        {rating && (
+          <p
+            data-testid="doctor-rating"
+            className="flex items-center gap-1 text-sm text-gray-700 mb-1"
+          >
+            <RatingStars rating={rating.average} />
+            <span className="sr-only">{t("common.rated")}</span>
+            <span className="font-medium">{rating.average.toFixed(1)}</span>
+            <span className="text-gray-500">
+              ({t("counts.reviews", { count: rating.count })})
+            </span>
+          </p>
+        )}
+        <p data-testid="doctor-specialty" className="text-gray-600 mb-2">
+          <Highlight
+            text={doctor.specialities.map((spec) => spec.name).join(", ")}
+            terms={highlight}
+          />
+        </p>
+
+        {doctor.doctor_introduction && (
+          <p className="text-sm text-gray-600 mb-2 line-clamp-2">
+            <Highlight text={doctor.doctor_introduction} terms={highlight} />
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-4 mt-2">
+          <span
+            data-testid="doctor-experience"
+            className="flex items-center text-gray-700 text-sm"
+          >
+            <ClockIcon className="h-4 w-4 mr-1 text-blue-500" />
+            {formatExperience(doctor.experienceYears)}
+          </span>
+          <span
+            data-testid="doctor-fee"
+            className="flex items-center text-gray-700 text-sm"
+          >
+            <MoneyIcon className="h-4 w-4 mr-1 text-green-500" />
+            {formatFees(doctor.fees)}
+          </span>
+          {distanceKm !== undefined && (
+            <span
+              data-testid="doctor-distance"
+              className="flex items-center text-gray-700 text-sm"
+            >
+              <MapPinIcon className="h-4 w-4 mr-1 text-red-500" />
+              {formatDistance(distanceKm, locale)}
+            </span>
+          )}
+          {doctor.clinic.name && (
+            <span
+              data-testid="doctor-clinic"
+              className="flex items-center text-gray-700 text-sm"
+            >
+              {doctor.clinic.address.logo_url ? (
+                <img
+                  src={doctor.clinic.address.logo_url}
+                  alt=""
+                  data-testid="clinic-logo"
+                  className="h-5 w-5 mr-1 rounded object-contain"
+                />
+              ) : (
+                <HomeIcon className="h-4 w-4 mr-1 text-gray-500" />
+              )}
+              {doctor.clinicId ? (
+                <Link
+                  href={href(clinicPath(doctor.clinicId))}
+                  className="hover:text-blue-600"
+                >
+                  <Highlight text={doctor.clinic.name} terms={highlight} />
+                </Link>
+              ) : (
+                <Highlight text={doctor.clinic.name} terms={highlight} />
+              )}
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2 mt-3">
+          {doctor.video_consult && (
+            <span className="px-2 py-1 bg-blue-50 text-blue-700 text-xs rounded-full flex items-center">
+              <VideoIcon className="h-3 w-3 mr-1" />
+              {t("common.videoConsult")}
+            </span>
+          )}
+          {doctor.in_clinic && (
+            <span className="px-2 py-1 bg-green-50 text-green-700 text-xs rounded-full flex items-center">
+              <ClinicIcon className="h-3 w-3 mr-1" />
+              {t("common.inClinic")}
+            </span>
+          )}
+          {doctor.languages && doctor.languages.length > 0 && (
+            <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-full">
+              <Highlight
+                text={languages.slice(0, 2).join(", ")}
+                terms={highlight}
+              />
+              {doctor.languages.length > 2
+                ? ` +${doctor.languages.length - 2}`
+                : ""}
+            </span>
+          )}
+        </div>
+
+        {doctor.clinic && doctor.clinic.address && (
+          <div className="mt-3 text-xs text-gray-500 flex items-start">
+            <MapPinIcon className="h-4 w-4 mr-1 flex-shrink-0 mt-0.5" />
+            <span className="line-clamp-1">
+              <Highlight
+                text={[
+                  doctor.clinic.address.address_line1,
+                  doctor.clinic.address.locality,
+                  doctor.clinic.address.city,
+                ]
+                  .filter(Boolean)
+                  .join(", ")}
+                terms={highlight}
+              />
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-shrink-0 flex flex-col items-center md:items-end justify-center mt-4 md:mt-0">
+        {availability &&
+          (availability.today ? (
+            <div
+              data-testid="doctor-availability"
+              className="bg-green-50 text-green-700 px-3 py-1 rounded-lg text-sm font-medium mb-2"
+            >
+              {t("card.availableToday")}
+            </div>
+          ) : availability.next ? (
+            <div
+              data-testid="doctor-availability"
+              className="bg-blue-50 text-blue-700 px-3 py-1 rounded-lg text-sm font-medium mb-2"
+            >
+              {t("card.next", {
+                slot: formatSlot(availability.next.start, locale),
+              })}
+            </div>
+          ) : (
+            <div
+              data-testid="doctor-availability"
+              className="bg-gray-100 text-gray-600 px-3 py-1 rounded-lg text-sm font-medium mb-2"
+            >
+              {t("card.noSlots")}
+            </div>
+          ))}
+        <BookButton doctor={doctor} className="w-full md:w-auto" />
+        <Link
+          href={href(doctorPath(doctor.id))}
+          data-testid="doctor-profile-link"
+          className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+        >
+          {t("card.viewProfile")}
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import Link from "next/link";
+import ShortlistButton from "@/components/ShortlistButton";
+import { doctorPath } from "@/lib/doctors/seo";
+import type { Doctor } from "@/lib/doctors/types";
+import type { Locale } from "@/lib/i18n/config";
+import { getI18n, type I18n, type MessageKey } from "@/lib/i18n/translate";
+import { comparePath } from "@/lib/shortlist";
+
+interface DoctorComparisonProps {
+  doctors: Doctor[];
+  locale: Locale;
+}
+
+interface Row {
+  label: MessageKey;
+  value: (doctor: Doctor, i18n: I18n) => React.ReactNode;
+  // Rows with a measure highlight the doctor(s) with the best value
+  measure?: (doctor: Doctor) => number;
+  better?: "lower" | "higher";
+}
+
+const rows: Row[] = [
+  {
+    label: "compare.fees",
+    value: (doctor, { formatFees }) => formatFees(doctor.fees),
+    measure: (doctor) => doctor.fees.amount,
+    better: "lower",
+  },
+  {
+    label: "compare.experience",
+    value: (doctor, { formatExperience }) =>
+      formatExperience(doctor.experienceYears),
+    measure: (doctor) => doctor.experienceYears,
+    better: "higher",
+  },
+  {
+    label: "compare.specialities",
+    value: (doctor) => doctor.specialities.map(({ name }) => name).join(", "),
+  },
+  {
+    label: "compare.languages",
+    value: (doctor, { t }) => doctor.languages.join(", ") || t("common.none"),
+  },
+  {
+    label: "compare.consultModes",
+    value: (doctor, { t }) =>
+      [
+        doctor.video_consult && t("common.videoConsult"),
+        doctor.in_clinic && t("common.inClinic"),
+      ]
+        .filter(Boolean)
+        .join(", ") || t("common.none"),
+  },
+  {
+    label: "compare.clinic",
+    value: (doctor, { t }) => doctor.clinic.name || t("common.none"),
+  },
+  {
+    label: "compare.address",
+    value: (doctor, { t }) =>
+      [
+        doctor.clinic.address.address_line1,
+        doctor.clinic.address.locality,
+        doctor.clinic.address.city,
+      ]
+        .filter(Boolean)
+        .join(", ") || t("common.none"),
+  },
+];
+
+// Side-by-side table of the doctors picked from the shortlist
+export default function DoctorComparison({
+  doctors,
+  locale,
+}: DoctorComparisonProps) {
+  const i18n = getI18n(locale);
+  const { t, href } = i18n;
+
+  return (
+    <div className="space-y-4">
+      <h1 className="text-2xl font-bold text-gray-800">{t("compare.title")}</h1>
+      <div className="overflow-x-auto bg-white rounded-lg shadow-sm">
+        <table data-testid="compare-table" className="w-full text-sm text-left">
+          <thead>
+            <tr className="border-b">
+              <th scope="col" className="p-3 w-36 text-gray-500 font-normal">
+                <span className="sr-only">{t("compare.detail")}</span>
+              </th>
+              {doctors.map((doctor) => (
+                <th
+                  key={doctor.id}
+                  scope="col"
+                  data-testid="compare-doctor"
+                  className="p-3 align-top min-w-48"
+                >
+                  <div className="flex justify-between items-start gap-2">
+                    <Link
+                      href={href(doctorPath(doctor.id))}
+                      className="text-base font-semibold text-gray-800 hover:text-blue-600"
+                    >
+                      {doctor.name}
+                    </Link>
+                    <ShortlistButton doctor={doctor} />
+                  </div>
+                  {doctors.length > 1 && (
+                    <Link
+                      href={href(
+                        comparePath(
+                          doctors.filter((d) => d !== doctor).map((d) => d.id)
+                        )
+                      )}
+                      className="text-xs font-normal text-gray-500 hover:text-gray-700"
+                    >
+                      {t("compare.remove")}
+                    </Link>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const values = row.measure ? doctors.map(row.measure) : [];
+              const best =
+                row.better === "lower"
+                  ? Math.min(...values)
+                  : Math.max(...values);
+              return (
+                <tr key={row.label} className="border-b last:border-b-0">
+                  <th scope="row" className="p-3 text-gray-500 font-medium">
+                    {t(row.label)}
+                  </th>
+                  {doctors.map((doctor) => (
+                    <td
+                      key={doctor.id}
+                      className={`p-3 align-top text-gray-800 ${
+                        doctors.length > 1 && row.measure?.(doctor) === best
+                          ? "bg-green-50 font-semibold"
+                          : ""
+                      }`}
+                    >
+                      {row.value(doctor, i18n)}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
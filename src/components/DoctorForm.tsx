@@ -0,0 +1,272 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import {
+  currencies,
+  emptyFormValues,
+  formRecord,
+  formValues,
+  type DoctorFormValues,
+} from "@/lib/admin/form";
+import type { Doctor } from "@/lib/doctors/types";
+
+interface DoctorFormProps {
+  // Doctor to edit; without one the form adds a new doctor
+  doctor?: Doctor;
+}
+
+type TextField = Exclude<keyof DoctorFormValues, "videoConsult" | "inClinic">;
+
+const inputClass =
+  "w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+// Add or edit every field of a doctor in /admin
+export default function DoctorForm({ doctor }: DoctorFormProps) {
+  const router = useRouter();
+  const [values, setValues] = useState<DoctorFormValues>(
+    doctor ? formValues(doctor) : emptyFormValues
+  );
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value, type } = e.target;
+    setValues((prev) => ({
+      ...prev,
+      [name]:
+        type === "checkbox" ? (e.target as HTMLInputElement).checked : value,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setIssues([]);
+
+    try {
+      const response = await fetch(
+        doctor
+          ? `/api/admin/doctors/${encodeURIComponent(doctor.id)}`
+          : "/api/admin/doctors",
+        {
+          method: doctor ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(formRecord(values)),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? "Failed to save doctor");
+        setIssues(data.issues ?? []);
+        return;
+      }
+
+      router.push("/admin");
+      router.refresh();
+    } catch (err) {
+      setError("Couldn't save the doctor. Please try again.");
+      console.error(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const field = (
+    name: TextField,
+    label: string,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {}
+  ) => (
+    <div>
+      <label
+        htmlFor={`doctor-${name}`}
+        className="block text-sm font-medium text-gray-700 mb-1"
+      >
+        {label}
+      </label>
+      <input
+        id={`doctor-${name}`}
+        name={name}
+        type="text"
+        value={values[name]}
+        onChange={handleChange}
+        data-testid={`doctor-${name}`}
+        className={inputClass}
+        {...props}
+      />
+    </div>
+  );
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      noValidate
+      className="bg-white rounded-lg shadow-sm p-6 space-y-6 text-black"
+    >
+      {error && (
+        <div
+          role="alert"
+          className="bg-red-50 border border-red-200 text-red-700 p-3 rounded-lg text-sm"
+          data-testid="doctor-form-error"
+        >
+          <p className="font-medium">{error}</p>
+          {issues.length > 0 && (
+            <ul className="list-disc pl-5 mt-1">
+              {issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <fieldset className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <legend className="text-lg font-semibold text-gray-800 mb-2">
+          Doctor
+        </legend>
+        {field("name", "Name", { required: true })}
+        {doctor ? (
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">
+              Id
+            </span>
+            <p className="p-2 text-sm text-gray-500">#{doctor.id}</p>
+          </div>
+        ) : (
+          field("id", "Id (optional, next free number if empty)")
+        )}
+        {field("photo", "Photo URL", { type: "url" })}
+        {field("languages", "Languages (comma separated)")}
+        <div className="sm:col-span-2">
+          <label
+            htmlFor="doctor-specialities"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Specialities (one per line)
+          </label>
+          <textarea
+            id="doctor-specialities"
+            name="specialities"
+            rows={3}
+            required
+            value={values.specialities}
+            onChange={handleChange}
+            data-testid="doctor-specialities"
+            className={inputClass}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <label
+            htmlFor="doctor-introduction"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Introduction
+          </label>
+          <textarea
+            id="doctor-introduction"
+            name="introduction"
+            rows={4}
+            value={values.introduction}
+            onChange={handleChange}
+            className={inputClass}
+          />
+        </div>
+      </fieldset>
+
+      <fieldset className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <legend className="text-lg font-semibold text-gray-800 mb-2">
+          Fees and experience
+        </legend>
+        {field("fees", "Fee", { type: "number", min: 0, required: true })}
+        <div>
+          <label
+            htmlFor="doctor-currency"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Currency
+          </label>
+          <select
+            id="doctor-currency"
+            name="currency"
+            value={values.currency}
+            onChange={handleChange}
+            className={inputClass}
+          >
+            {currencies.map((currency) => (
+              <option key={currency} value={currency}>
+                {currency}
+              </option>
+            ))}
+          </select>
+        </div>
+        {field("experience", "Years of experience", { type: "number", min: 0 })}
+      </fieldset>
+
+      <fieldset className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <legend className="text-lg font-semibold text-gray-800 mb-2">
+          Clinic
+        </legend>
+        {field("clinicName", "Clinic name")}
+        {field("addressLine1", "Address")}
+        {field("locality", "Locality")}
+        {field("city", "City")}
+        {field("location", "Location (lng,lat)")}
+        {field("logoUrl", "Logo URL")}
+      </fieldset>
+
+      <fieldset>
+        <legend className="text-lg font-semibold text-gray-800 mb-2">
+          Consultations
+        </legend>
+        <div className="flex gap-6 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              name="videoConsult"
+              checked={values.videoConsult}
+              onChange={handleChange}
+              data-testid="doctor-videoConsult"
+              className="h-4 w-4 text-blue-600"
+            />
+            Video consult
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              name="inClinic"
+              checked={values.inClinic}
+              onChange={handleChange}
+              data-testid="doctor-inClinic"
+              className="h-4 w-4 text-blue-600"
+            />
+            In clinic
+          </label>
+        </div>
+      </fieldset>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => router.push("/admin")}
+          className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={submitting}
+          data-testid="doctor-save"
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition shadow-sm disabled:opacity-50"
+        >
+          {submitting ? "Saving..." : doctor ? "Save changes" : "Add doctor"}
+        </button>
+      </div>
+    </form>
+  );
+}
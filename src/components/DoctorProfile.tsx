@@ -0,0 +1,292 @@
+import Link from "next/link";
+import BookButton from "@/components/BookButton";
+import RatingStars from "@/components/RatingStars";
+import RememberViewed from "@/components/RememberViewed";
+import ReviewForm from "@/components/ReviewForm";
+import { formatSlot } from "@/lib/booking/format";
+import type { AvailabilitySummary } from "@/lib/booking/types";
+import { clinicPath } from "@/lib/doctors/clinics";
+import {
+  physicianJsonLd,
+  serializeJsonLd,
+  specialityPath,
+} from "@/lib/doctors/seo";
+import type { Doctor } from "@/lib/doctors/types";
+import type { Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+import { formatRating, summarizeRatings } from "@/lib/reviews/ratings";
+import type { Review } from "@/lib/reviews/types";
+
+interface DoctorProfileProps {
+  doctor: Doctor;
+  availability: AvailabilitySummary;
+  // Approved reviews, newest first
+  reviews: Review[];
+  locale: Locale;
+}
+
+// Full details of one doctor, everything the listing card truncates
+export default function DoctorProfile({
+  doctor,
+  availability,
+  reviews,
+  locale,
+}: DoctorProfileProps) {
+  const { intlLocale, t, formatExperience, formatFees, href } = getI18n(locale);
+  const reviewDate = new Intl.DateTimeFormat(intlLocale, {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+  const { clinic } = doctor;
+  const rating = summarizeRatings(reviews)[doctor.id];
+  const consultModes = [
+    { label: t("common.videoConsult"), available: doctor.video_consult },
+    { label: t("common.inClinic"), available: doctor.in_clinic },
+  ];
+
+  return (
+    <article data-testid="doctor-profile" className="space-y-6">
+      <RememberViewed doctor={doctor} />
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: serializeJsonLd(physicianJsonLd(doctor, locale)),
+        }}
+      />
+
+      <nav
+        aria-label={t("common.breadcrumb")}
+        className="text-sm text-gray-500"
+      >
+        <ol className="flex flex-wrap gap-1">
+          <li>
+            <Link href={href("/")} className="hover:text-blue-600">
+              {t("common.doctors")}
+            </Link>
+            <span className="mx-1">/</span>
+          </li>
+          {doctor.specialities[0] && (
+            <li>
+              <Link
+                href={href(specialityPath(doctor.specialities[0].name))}
+                className="hover:text-blue-600"
+              >
+                {doctor.specialities[0].name}
+              </Link>
+              <span className="mx-1">/</span>
+            </li>
+          )}
+          <li>
+            <span aria-current="page">{doctor.name}</span>
+          </li>
+        </ol>
+      </nav>
+
+      <section className="bg-white p-6 rounded-lg shadow-sm flex flex-col md:flex-row gap-6">
+        <div className="w-28 h-28 md:w-32 md:h-32 flex-shrink-0 bg-blue-50 rounded-full flex items-center justify-center overflow-hidden border-2 border-blue-100">
+          {doctor.photo ? (
+            <img
+              src={doctor.photo}
+              alt={doctor.name}
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <span className="text-4xl text-blue-500">
+              {doctor.name.charAt(0)}
+            </span>
+          )}
+        </div>
+
+        <div className="flex-grow">
+          <h1
+            data-testid="doctor-name"
+            className="text-2xl font-bold text-gray-800"
+          >
+            {doctor.name}
+          </h1>
+          <ul
+            data-testid="doctor-specialty"
+            className="flex flex-wrap gap-2 mt-2"
+          >
+            {doctor.specialities.map(({ name }) => (
+              <li key={name}>
+                <Link
+                  href={href(specialityPath(name))}
+                  className="px-2 py-1 bg-blue-50 text-blue-700 text-sm rounded-full hover:bg-blue-100"
+                >
+                  {name}
+                </Link>
+              </li>
+            ))}
+          </ul>
+          {rating && (
+            <p
+              data-testid="doctor-rating"
+              className="flex items-center gap-1 text-sm text-gray-700 mt-2"
+            >
+              <RatingStars rating={rating.average} />
+              <span className="sr-only">{t("common.rated")}</span>
+              <a href="#reviews" className="hover:text-blue-600">
+                {formatRating(rating, locale)}
+              </a>
+            </p>
+          )}
+          <dl className="grid grid-cols-2 md:grid-cols-3 gap-4 mt-4 text-sm">
+            <div>
+              <dt className="text-gray-500">{t("profile.experience")}</dt>
+              <dd data-testid="doctor-experience" className="text-gray-800">
+                {formatExperience(doctor.experienceYears)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">{t("profile.fee")}</dt>
+              <dd data-testid="doctor-fee" className="text-gray-800">
+                {formatFees(doctor.fees)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">{t("profile.languages")}</dt>
+              <dd className="text-gray-800">
+                {doctor.languages.length > 0
+                  ? doctor.languages.join(", ")
+                  : t("profile.notListed")}
+              </dd>
+            </div>
+          </dl>
+        </div>
+      </section>
+
+      {doctor.doctor_introduction && (
+        <section className="bg-white p-6 rounded-lg shadow-sm">
+          <h2 className="font-semibold text-gray-700 mb-2">
+            {t("profile.about")}
+          </h2>
+          <p className="text-gray-600 whitespace-pre-line">
+            {doctor.doctor_introduction}
+          </p>
+        </section>
+      )}
+
+      <section className="bg-white p-6 rounded-lg shadow-sm">
+        <h2 className="font-semibold text-gray-700 mb-3">
+          {t("profile.consultModes")}
+        </h2>
+        <ul className="flex flex-wrap gap-3">
+          {consultModes.map(({ label, available }) => (
+            <li
+              key={label}
+              className={`px-3 py-2 rounded-lg text-sm ${
+                available
+                  ? "bg-green-50 text-green-700"
+                  : "bg-gray-100 text-gray-500 line-through"
+              }`}
+            >
+              {label}
+              <span className="sr-only">
+                {" "}
+                {available ? t("profile.available") : t("profile.unavailable")}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {clinic.name && (
+        <section className="bg-white p-6 rounded-lg shadow-sm">
+          <h2 className="font-semibold text-gray-700 mb-3">
+            {t("profile.clinic")}
+          </h2>
+          <div className="flex gap-4">
+            {clinic.address.logo_url && (
+              <img
+                src={clinic.address.logo_url}
+                alt={t("profile.logo", { name: clinic.name })}
+                className="w-16 h-16 rounded-lg object-contain flex-shrink-0"
+              />
+            )}
+            <div className="text-sm text-gray-600 space-y-1">
+              <p className="text-base font-medium text-gray-800">
+                {clinic.name}
+              </p>
+              <address className="not-italic">
+                {[
+                  clinic.address.address_line1,
+                  clinic.address.locality,
+                  clinic.address.city,
+                ]
+                  .filter(Boolean)
+                  .join(", ")}
+              </address>
+              {clinic.address.location && (
+                <p>
+                  {t("profile.location", {
+                    location: clinic.address.location,
+                  })}
+                </p>
+              )}
+              {doctor.clinicId && (
+                <Link
+                  href={href(clinicPath(doctor.clinicId))}
+                  className="inline-block text-blue-600 hover:text-blue-800"
+                >
+                  {t("profile.clinicDoctors", { name: clinic.name })}
+                </Link>
+              )}
+            </div>
+          </div>
+        </section>
+      )}
+
+      <section
+        id="reviews"
+        data-testid="doctor-reviews"
+        className="bg-white p-6 rounded-lg shadow-sm"
+      >
+        <h2 className="font-semibold text-gray-700 mb-3">
+          {t("profile.reviews")}
+        </h2>
+        {reviews.length > 0 ? (
+          <ul className="divide-y divide-gray-100 mb-6">
+            {reviews.map((review) => (
+              <li key={review.id} data-testid="review" className="py-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <RatingStars rating={review.rating} />
+                  <span className="sr-only">
+                    {t("profile.outOfFive", { rating: review.rating })}
+                  </span>
+                  <span className="font-medium text-gray-800">
+                    {review.name}
+                  </span>
+                  <time
+                    dateTime={review.createdAt}
+                    className="text-gray-400 text-xs"
+                  >
+                    {reviewDate.format(new Date(review.createdAt))}
+                  </time>
+                </div>
+                <p className="text-gray-600 text-sm mt-1 whitespace-pre-line">
+                  {review.text}
+                </p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 mb-6">{t("profile.noReviews")}</p>
+        )}
+        <ReviewForm doctorId={doctor.id} doctorName={doctor.name} />
+      </section>
+
+      <div className="flex flex-col md:flex-row md:items-center justify-end gap-3">
+        <p data-testid="doctor-availability" className="text-sm text-gray-600">
+          {availability.next
+            ? t("profile.nextAvailable", {
+                slot: formatSlot(availability.next.start, locale),
+              })
+            : t("profile.noSlots")}
+        </p>
+        <BookButton doctor={doctor} />
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+import { useRef, useState } from "react";
+import DoctorCard from "@/components/DoctorCard";
+import ClinicMap from "@/components/ClinicMap";
+import SortControl from "@/components/SortControl";
+import Pagination from "@/components/Pagination";
+import ShareSearch from "@/components/ShareSearch";
+import { MapIcon, SadFaceIcon } from "@/components/icons";
+import useI18n from "@/hooks/useI18n";
+import type { DoctorQuery, DoctorsResponse } from "@/lib/doctors/types";
+import { pageSizes } from "@/lib/doctors/url-state";
+import type { MessageKey } from "@/lib/i18n/translate";
+
+interface DoctorResultsProps {
+  query: DoctorQuery;
+  data: DoctorsResponse | null;
+  loading: boolean;
+  error: MessageKey | null;
+  onChange: (changes: Partial<DoctorQuery>) => void;
+  onClearAll: () => void;
+  // Offer "Copy link" and "QR code" for the current view
+  showShare?: boolean;
+}
+
+// One page of matching doctors with the result count, sort, map and paging
+export default function DoctorResults({
+  query,
+  data,
+  loading,
+  error,
+  onChange,
+  onClearAll,
+  showShare = true,
+}: DoctorResultsProps) {
+  const { t } = useI18n();
+  // Map shown beside the list, and the doctor whose card is hovered
+  const [showMap, setShowMap] = useState(false);
+  const [activeDoctorId, setActiveDoctorId] = useState<string | null>(null);
+
+  const doctors = data?.doctors ?? [];
+  const total = data?.total ?? 0;
+  const page = data?.page ?? 1;
+
+  // Bring a doctor's card into view when their clinic is picked on the map
+  const scrollToDoctor = (id: string) => {
+    setActiveDoctorId(id);
+    document
+      .getElementById(`doctor-${id}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  // Move between pages, back to the top of the results
+  const resultsRef = useRef<HTMLDivElement>(null);
+  const handlePageChange = (page: number) => {
+    if (page === query.page) return;
+    onChange({ page });
+    resultsRef.current?.scrollIntoView({ block: "start" });
+  };
+
+  const pageCount = Math.ceil(total / query.pageSize);
+  const firstShown = (page - 1) * query.pageSize + 1;
+  const lastShown = firstShown + doctors.length - 1;
+
+  return (
+    <div className="scroll-mt-20" ref={resultsRef}>
+      <div className="flex flex-wrap gap-2 justify-between items-center mb-4">
+        {/* Live region, so screen readers hear the new count when filters change */}
+        <p
+          role="status"
+          aria-atomic="true"
+          className="text-sm text-gray-600"
+          data-testid="results-count"
+        >
+          {loading
+            ? t("results.loading")
+            : total === 0
+              ? t("results.none")
+              : t("results.showing", {
+                  first: firstShown,
+                  last: lastShown,
+                  count: total,
+                })}
+        </p>
+        <div className="flex flex-wrap items-center gap-4">
+          {showShare && <ShareSearch query={query} />}
+          <SortControl
+            sortBy={query.sortBy}
+            sortDir={query.sortDir}
+            hasSearch={!!query.search}
+            hasOrigin={!!data?.origin}
+            onChange={(sortBy, sortDir) => onChange({ sortBy, sortDir })}
+          />
+          <button
+            type="button"
+            onClick={() => setShowMap(!showMap)}
+            aria-pressed={showMap}
+            data-testid="toggle-map"
+            className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+          >
+            <MapIcon className="h-5 w-5 mr-1" />
+            {showMap ? t("results.hideMap") : t("results.showMap")}
+          </button>
+        </div>
+      </div>
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-100 p-4 rounded-lg text-red-700">{t(error)}</div>
+      ) : doctors.length === 0 ? (
+        <div className="bg-white p-6 rounded-lg shadow text-center">
+          <SadFaceIcon className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+          <p className="text-lg text-gray-600">{t("results.noMatches")}</p>
+          <button
+            onClick={onClearAll}
+            className="mt-4 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition"
+          >
+            {t("results.clearFilters")}
+          </button>
+        </div>
+      ) : (
+        <div
+          className={showMap ? "flex flex-col-reverse lg:flex-row gap-4" : ""}
+        >
+          <div className={`space-y-4 ${showMap ? "lg:w-1/2" : ""}`}>
+            {doctors.map((doctor) => (
+              <div
+                key={doctor.id}
+                id={`doctor-${doctor.id}`}
+                onMouseEnter={() => setActiveDoctorId(doctor.id)}
+                onMouseLeave={() => setActiveDoctorId(null)}
+                className={`rounded-lg ${
+                  showMap && activeDoctorId === doctor.id
+                    ? "ring-2 ring-blue-400"
+                    : ""
+                }`}
+              >
+                <DoctorCard
+                  doctor={doctor}
+                  availability={data?.availability[doctor.id]}
+                  highlight={data?.highlights[doctor.id]}
+                  distanceKm={data?.distances[doctor.id]}
+                  rating={data?.ratings[doctor.id]}
+                />
+              </div>
+            ))}
+          </div>
+          {showMap && (
+            <div className="lg:w-1/2 lg:sticky lg:top-20 self-start w-full">
+              <ClinicMap
+                doctors={doctors}
+                activeId={activeDoctorId}
+                onSelectDoctor={scrollToDoctor}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {!loading && !error && total > 0 && (
+        <div className="flex flex-col items-center">
+          <Pagination
+            page={page}
+            pageCount={pageCount}
+            onChange={handlePageChange}
+          />
+          <label className="mt-3 text-sm text-gray-600">
+            {t("results.perPage")}{" "}
+            <select
+              value={query.pageSize}
+              onChange={(e) => onChange({ pageSize: Number(e.target.value) })}
+              data-testid="page-size"
+              className="ml-1 p-1 border border-gray-300 rounded-lg bg-white"
+            >
+              {pageSizes.map((size) => (
+                <option key={size} value={size}>
+                  {size}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
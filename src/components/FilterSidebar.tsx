@@ -0,0 +1,453 @@
+"use client";
+import { useId } from "react";
+import SpecialityFilter from "@/components/SpecialityFilter";
+import OptionFilter from "@/components/OptionFilter";
+import RangeFilter from "@/components/RangeFilter";
+import LocationFilter from "@/components/LocationFilter";
+import RatingStars from "@/components/RatingStars";
+import SavedSearches from "@/components/SavedSearches";
+import useDialog from "@/hooks/useDialog";
+import useI18n from "@/hooks/useI18n";
+import { ClinicIcon, CloseIcon, VideoIcon } from "@/components/icons";
+import { feeBandRange, feeBands } from "@/lib/doctors/fee-bands";
+import type {
+  ConsultType,
+  DoctorQuery,
+  FacetCounts,
+  FilterOptions,
+  SortBy,
+} from "@/lib/doctors/types";
+import { decodeQuery } from "@/lib/doctors/url-state";
+import type { Place } from "@/lib/geo/places";
+import type { MessageKey } from "@/lib/i18n/translate";
+import { ratingThresholds } from "@/lib/reviews/ratings";
+
+interface FilterSidebarProps {
+  query: DoctorQuery;
+  specialties: string[];
+  options: FilterOptions | null;
+  facets: FacetCounts | null;
+  // Where the location filter was resolved to
+  origin: Place | null;
+  onChange: (changes: Partial<DoctorQuery>) => void;
+  onClearAll: () => void;
+  // Shown full screen as a modal dialog on small screens while open
+  mobileOpen?: boolean;
+  onClose?: () => void;
+  // Offer saving the current filters as a named preset
+  showSavedSearches?: boolean;
+}
+
+const consultOptions: {
+  value: ConsultType | null;
+  label: MessageKey;
+  testId: string;
+}[] = [
+  { value: null, label: "filters.anyMode", testId: "filter-consult-any" },
+  {
+    value: "video",
+    label: "common.videoConsult",
+    testId: "filter-video-consult",
+  },
+  { value: "clinic", label: "common.inClinic", testId: "filter-in-clinic" },
+];
+
+const sortOptions: { value: SortBy | null; label: MessageKey }[] = [
+  { value: null, label: "filters.sortRecommended" },
+  { value: "fees", label: "filters.sortFees" },
+  { value: "experience", label: "filters.sortExperience" },
+  { value: "rating", label: "filters.sortRating" },
+  { value: "distance", label: "filters.sortDistance" },
+];
+
+// Every filter for a doctor list, plus the sidebar sort options
+export default function FilterSidebar({
+  query,
+  specialties,
+  options,
+  facets,
+  origin,
+  onChange,
+  onClearAll,
+  mobileOpen = false,
+  onClose,
+  showSavedSearches = true,
+}: FilterSidebarProps) {
+  const { t, formatFees } = useI18n();
+  const { consultType, sortBy } = query;
+  // Names the radio groups and the dialog title
+  const groupId = useId();
+
+  const dialogRef = useDialog<HTMLDivElement>(mobileOpen, () => onClose?.());
+
+  // Drop picked localities and clinics that aren't in any of the remaining
+  // cities
+  const handleCitiesChange = (cities: string[]) => {
+    if (cities.length === 0) {
+      onChange({ cities });
+      return;
+    }
+    const localities = query.localities.filter((locality) =>
+      cities.some((city) => options?.localities[city]?.includes(locality))
+    );
+    const clinics = query.clinics.filter((id) =>
+      options?.clinics.some(
+        (clinic) => clinic.id === id && cities.includes(clinic.city)
+      )
+    );
+    onChange({ cities, localities, clinics });
+  };
+
+  // Picking a place sorts nearest first unless another sort is chosen
+  const handleLocationChange = (
+    near: string | null,
+    radiusKm: number | null
+  ) => {
+    const nextSort =
+      near && !query.near && !sortBy
+        ? "distance"
+        : !near && sortBy === "distance"
+          ? null
+          : sortBy;
+    onChange({
+      near,
+      radiusKm,
+      sortBy: nextSort,
+      sortDir: nextSort === sortBy ? query.sortDir : null,
+    });
+  };
+
+  // Switch to a saved preset
+  const applySavedSearch = (params: string) => {
+    onChange(
+      decodeQuery(
+        new URLSearchParams(params),
+        specialties.length > 0 ? specialties : undefined
+      )
+    );
+  };
+
+  // Places offered by the location box
+  const places = options
+    ? [
+        ...options.cities.flatMap((city) =>
+          (options.localities[city] ?? []).map(
+            (locality) => `${locality}, ${city}`
+          )
+        ),
+        ...options.cities,
+      ]
+    : [];
+
+  // Localities of the picked cities, or of every city when none is picked
+  const localityOptions = options
+    ? Array.from(
+        new Set(
+          (query.cities.length > 0 ? query.cities : options.cities).flatMap(
+            (city) => options.localities[city] ?? []
+          )
+        )
+      ).sort()
+    : [];
+
+  // Clinics in the picked cities, or in every city when none is picked
+  const clinicOptions = options
+    ? options.clinics.filter(
+        (clinic) =>
+          query.cities.length === 0 || query.cities.includes(clinic.city)
+      )
+    : [];
+
+  return (
+    <div
+      ref={dialogRef}
+      id="filter-panel"
+      role={mobileOpen ? "dialog" : undefined}
+      aria-modal={mobileOpen ? true : undefined}
+      aria-labelledby={mobileOpen ? `${groupId}-title` : undefined}
+      tabIndex={mobileOpen ? -1 : undefined}
+      data-testid="filter-panel"
+      className={`w-full md:w-1/4 md:block ${
+        mobileOpen
+          ? "fixed inset-0 z-50 bg-white p-4 overflow-y-auto"
+          : "hidden"
+      }`}
+    >
+      <div className="bg-white p-4 rounded-lg shadow-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h2 id={`${groupId}-title`} className="font-bold text-gray-700">
+            {t("filters.heading")}
+          </h2>
+          <div className="flex items-center space-x-2">
+            <button
+              type="button"
+              onClick={onClearAll}
+              className="text-sm text-blue-600 hover:text-blue-800"
+              data-testid="clear-all-filters"
+            >
+              {t("filters.clearAll")}
+            </button>
+
+            {mobileOpen && (
+              <button
+                type="button"
+                onClick={onClose}
+                aria-label={t("filters.close")}
+                className="text-gray-500 hover:text-gray-700 md:hidden"
+                data-testid="close-filters"
+              >
+                <CloseIcon className="h-6 w-6" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {showSavedSearches && (
+          <SavedSearches query={query} onApply={applySavedSearch} />
+        )}
+
+        {/* Consultation Type Filter */}
+        <fieldset className="mb-6">
+          <legend
+            className="font-semibold mb-3 text-gray-700"
+            data-testid="filter-header-moc"
+          >
+            {t("filters.consultMode")}
+          </legend>
+          <div className="space-y-2 text-black">
+            {consultOptions.map((option) => (
+              <label
+                key={option.testId}
+                className="flex items-center space-x-3 cursor-pointer"
+              >
+                <input
+                  type="radio"
+                  name={`${groupId}-consult`}
+                  checked={consultType === option.value}
+                  onChange={() => onChange({ consultType: option.value })}
+                  data-testid={option.testId}
+                  className="h-4 w-4 text-blue-600"
+                />
+                <div className="flex items-center">
+                  {option.value === "video" && (
+                    <VideoIcon className="h-5 w-5 mr-2 text-blue-500" />
+                  )}
+                  {option.value === "clinic" && (
+                    <ClinicIcon className="h-5 w-5 mr-2 text-green-500" />
+                  )}
+                  <span>{t(option.label)}</span>
+                </div>
+                {option.value && (
+                  <span
+                    className="ml-auto text-xs text-gray-500"
+                    data-testid={`filter-count-${option.value}`}
+                  >
+                    {facets?.consultType[option.value] ?? 0}
+                  </span>
+                )}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {/* Specialty Filter */}
+        <SpecialityFilter
+          specialties={specialties}
+          selected={query.specialties}
+          counts={facets?.specialties ?? {}}
+          match={query.specialtyMatch}
+          onChange={(specialties) => onChange({ specialties })}
+          onMatchChange={(specialtyMatch) => onChange({ specialtyMatch })}
+        />
+
+        {options && (
+          <>
+            {/* Language Filter */}
+            <OptionFilter
+              title={t("filters.language")}
+              testId="language"
+              options={options.languages}
+              selected={query.languages}
+              counts={facets?.languages ?? {}}
+              onChange={(languages) => onChange({ languages })}
+            />
+
+            {/* Fee Range Filter */}
+            <RangeFilter
+              title={t("filters.fees")}
+              testId="fee"
+              bounds={options.fees}
+              step={50}
+              min={query.minFee}
+              max={query.maxFee}
+              format={(amount) =>
+                formatFees({ amount, currency: options.feeCurrency })
+              }
+              presets={feeBands.map((band) => {
+                const [min, max] = feeBandRange(band, options.fees);
+                const fees = (amount: number) =>
+                  formatFees({ amount, currency: options.feeCurrency });
+                return {
+                  id: band.id,
+                  label:
+                    band.max === undefined
+                      ? t("filters.feeOver", { min: fees(band.min) })
+                      : band.min === 0
+                        ? t("filters.feeUnder", { max: fees(band.max) })
+                        : t("filters.feeBetween", {
+                            min: fees(band.min),
+                            max: fees(band.max),
+                          }),
+                  min,
+                  max,
+                  count: facets?.feeBands[band.id] ?? 0,
+                };
+              })}
+              onChange={(minFee, maxFee) => onChange({ minFee, maxFee })}
+            />
+
+            {/* Experience Range Filter */}
+            <RangeFilter
+              title={t("filters.experience")}
+              testId="experience"
+              bounds={options.experience}
+              min={query.minExperience}
+              max={query.maxExperience}
+              format={(years) => t("format.experienceShort", { count: years })}
+              onChange={(minExperience, maxExperience) =>
+                onChange({ minExperience, maxExperience })
+              }
+            />
+
+            {/* Rating Filter */}
+            <fieldset className="mb-6 text-black">
+              <legend
+                className="font-semibold mb-3 text-gray-700"
+                data-testid="filter-header-rating"
+              >
+                {t("filters.rating")}
+              </legend>
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name={`${groupId}-rating`}
+                    checked={query.minRating === null}
+                    onChange={() => onChange({ minRating: null })}
+                    data-testid="filter-rating-any"
+                    className="h-4 w-4 text-blue-600"
+                  />
+                  <span className="text-sm">{t("filters.anyRating")}</span>
+                </label>
+                {ratingThresholds.map((threshold) => (
+                  <label
+                    key={threshold}
+                    className="flex items-center space-x-2 cursor-pointer"
+                  >
+                    <input
+                      type="radio"
+                      name={`${groupId}-rating`}
+                      checked={query.minRating === threshold}
+                      onChange={() => onChange({ minRating: threshold })}
+                      data-testid={`filter-rating-${threshold}`}
+                      className="h-4 w-4 text-blue-600"
+                    />
+                    <RatingStars rating={threshold} />
+                    <span className="text-sm flex-grow">
+                      {t("filters.ratingAtLeast", { rating: threshold })}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {facets?.ratings[threshold] ?? 0}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            {/* Location Filter */}
+            <LocationFilter
+              near={query.near}
+              origin={origin}
+              radiusKm={query.radiusKm}
+              places={places}
+              onChange={handleLocationChange}
+            />
+
+            {/* City Filter */}
+            <OptionFilter
+              title={t("filters.city")}
+              testId="city"
+              options={options.cities}
+              selected={query.cities}
+              counts={facets?.cities ?? {}}
+              onChange={handleCitiesChange}
+            />
+
+            {/* Locality Filter */}
+            <OptionFilter
+              title={t("filters.locality")}
+              testId="locality"
+              options={localityOptions}
+              selected={query.localities}
+              counts={facets?.localities ?? {}}
+              onChange={(localities) => onChange({ localities })}
+            />
+
+            {/* Clinic Filter */}
+            <OptionFilter
+              title={t("filters.clinic")}
+              testId="clinic"
+              options={clinicOptions.map((clinic) => clinic.id)}
+              labels={Object.fromEntries(
+                clinicOptions.map((clinic) => [
+                  clinic.id,
+                  clinic.city ? `${clinic.name}, ${clinic.city}` : clinic.name,
+                ])
+              )}
+              selected={query.clinics}
+              counts={facets?.clinics ?? {}}
+              onChange={(clinics) => onChange({ clinics })}
+            />
+          </>
+        )}
+
+        {/* Sort Filter */}
+        <fieldset className="text-black">
+          <legend
+            className="font-semibold mb-3 text-gray-700"
+            data-testid="filter-header-sort"
+          >
+            {t("filters.sortBy")}
+          </legend>
+          <div className="space-y-2">
+            {sortOptions.map((option) => {
+              // Distance needs a place to measure from
+              const disabled = option.value === "distance" && !origin;
+              return (
+                <label
+                  key={option.value ?? "default"}
+                  className={`flex items-center space-x-2 ${
+                    disabled ? "text-gray-500" : "cursor-pointer"
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name={`${groupId}-sort`}
+                    checked={sortBy === option.value}
+                    onChange={() =>
+                      onChange({ sortBy: option.value, sortDir: null })
+                    }
+                    disabled={disabled}
+                    data-testid={`sort-${option.value ?? "default"}`}
+                    className="h-4 w-4 text-blue-600"
+                  />
+                  <span className="text-sm">{t(option.label)}</span>
+                </label>
+              );
+            })}
+          </div>
+        </fieldset>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { normalizeTerm } from "@/lib/search/tokenize";
+
+interface HighlightProps {
+  text: string;
+  // Normalized search terms to mark, as returned by the search index
+  terms?: string[];
+}
+
+// Render text with every word that matched the search wrapped in <mark>
+export default function Highlight({ text, terms }: HighlightProps) {
+  if (!terms || terms.length === 0) return <>{text}</>;
+
+  const matches = new Set(terms);
+  const parts = text.split(/([\p{L}\p{N}]+)/u);
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 && matches.has(normalizeTerm(part)) ? (
+          <mark key={i} className="bg-yellow-100 text-inherit rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
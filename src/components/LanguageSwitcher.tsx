@@ -0,0 +1,60 @@
+"use client";
+import { Suspense } from "react";
+import Link from "next/link";
+import { usePathname, useSearchParams } from "next/navigation";
+import useI18n from "@/hooks/useI18n";
+import {
+  localeNames,
+  localePath,
+  locales,
+  stripLocale,
+} from "@/lib/i18n/config";
+
+interface LanguageLinksProps {
+  // Query string kept when switching, so filters survive
+  search: string;
+}
+
+function LanguageLinks({ search }: LanguageLinksProps) {
+  const { locale, t } = useI18n();
+  const path = stripLocale(usePathname());
+
+  return (
+    <nav aria-label={t("nav.language")} data-testid="language-switcher">
+      <ul className="flex items-center gap-2 text-sm">
+        {locales.map((other) => (
+          <li key={other}>
+            <Link
+              href={`${localePath(other, path)}${search ? `?${search}` : ""}`}
+              lang={other}
+              hrefLang={other}
+              aria-current={other === locale ? "true" : undefined}
+              data-testid={`language-${other}`}
+              className={
+                other === locale
+                  ? "text-white font-semibold underline underline-offset-4"
+                  : "text-blue-100 hover:text-white"
+              }
+            >
+              {localeNames[other]}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
+
+function LanguageLinksWithQuery() {
+  return <LanguageLinks search={useSearchParams().toString()} />;
+}
+
+// Links to the current page in each language. Reading the query needs a
+// Suspense boundary on static pages; until then the links drop it.
+export default function LanguageSwitcher() {
+  return (
+    <Suspense fallback={<LanguageLinks search="" />}>
+      <LanguageLinksWithQuery />
+    </Suspense>
+  );
+}
@@ -0,0 +1,18 @@
+"use client";
+import { LocaleContext } from "@/hooks/useI18n";
+import type { Locale } from "@/lib/i18n/config";
+
+interface LocaleProviderProps {
+  locale: Locale;
+  children: React.ReactNode;
+}
+
+// Makes the page's language available to useI18n
+export default function LocaleProvider({
+  locale,
+  children,
+}: LocaleProviderProps) {
+  return (
+    <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+import { useEffect, useState } from "react";
+import useI18n from "@/hooks/useI18n";
+import { formatLatLng } from "@/lib/geo/coordinates";
+import type { Place } from "@/lib/geo/places";
+
+interface LocationFilterProps {
+  near: string | null;
+  // What the server resolved `near` to; null when it couldn't place it
+  origin: Place | null;
+  radiusKm: number | null;
+  // Localities and cities offered as you type
+  places: string[];
+  onChange: (near: string | null, radiusKm: number | null) => void;
+}
+
+const radiusOptions = [2, 5, 10, 25, 50];
+
+// "Near me" picker: the browser's position or a typed locality, plus an
+// optional radius. Typed places are matched against our own clinic data,
+// so nothing is sent to a geocoding service.
+export default function LocationFilter({
+  near,
+  origin,
+  radiusKm,
+  places,
+  onChange,
+}: LocationFilterProps) {
+  const { t } = useI18n();
+  const [text, setText] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+
+  // Reset the box when the place is cleared from outside (Clear All)
+  useEffect(() => {
+    if (!near) setText("");
+  }, [near]);
+
+  const useCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      setStatus(t("location.unsupported"));
+      return;
+    }
+    setStatus(t("location.finding"));
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setStatus(null);
+        onChange(
+          formatLatLng({
+            lat: position.coords.latitude,
+            lng: position.coords.longitude,
+          }),
+          radiusKm
+        );
+      },
+      (error) =>
+        setStatus(
+          error.code === error.PERMISSION_DENIED
+            ? t("location.denied")
+            : t("location.failed")
+        ),
+      { maximumAge: 5 * 60 * 1000, timeout: 10000 }
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (text.trim()) {
+      setStatus(null);
+      onChange(text.trim(), radiusKm);
+    }
+  };
+
+  return (
+    <fieldset className="mb-6 text-black">
+      <legend
+        className="font-semibold mb-3 text-gray-700"
+        data-testid="filter-header-location"
+      >
+        {t("location.heading")}
+      </legend>
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-2">
+        <input
+          type="text"
+          list="location-places"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={t("location.placeholder")}
+          aria-label={t("location.placeholder")}
+          data-testid="filter-location-input"
+          className="flex-grow min-w-0 p-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <datalist id="location-places">
+          {places.map((place) => (
+            <option key={place} value={place} />
+          ))}
+        </datalist>
+        <button
+          type="submit"
+          className="px-3 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          {t("location.go")}
+        </button>
+      </form>
+      <button
+        type="button"
+        onClick={useCurrentLocation}
+        data-testid="filter-location-current"
+        className="text-sm text-blue-600 hover:text-blue-800 mb-2"
+      >
+        {t("location.useCurrent")}
+      </button>
+      <p role="status" className="text-xs text-gray-600 empty:hidden mb-2">
+        {status}
+      </p>
+
+      {near && (
+        <div
+          className="flex justify-between items-center text-sm mb-2"
+          data-testid="filter-location-current-place"
+        >
+          {origin ? (
+            <span>
+              {t("location.near", {
+                place: origin.name ?? t("location.yourLocation"),
+              })}
+            </span>
+          ) : (
+            <span className="text-red-600">
+              {t("location.notFound", { place: near })}
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(null, null)}
+            data-testid="filter-location-clear"
+            className="text-xs text-blue-600 hover:text-blue-800"
+          >
+            {t("common.clear")}
+          </button>
+        </div>
+      )}
+
+      <select
+        value={radiusKm ?? ""}
+        onChange={(e) =>
+          onChange(near, e.target.value ? Number(e.target.value) : null)
+        }
+        disabled={!origin}
+        aria-label={t("location.distance")}
+        data-testid="filter-radius"
+        className="w-full p-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-100 disabled:text-gray-400"
+      >
+        <option value="">{t("location.anyDistance")}</option>
+        {radiusOptions.map((km) => (
+          <option key={km} value={km}>
+            {t("location.within", { km })}
+          </option>
+        ))}
+      </select>
+    </fieldset>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import type { Review, ReviewStatus } from "@/lib/reviews/types";
+
+interface ModerateReviewButtonsProps {
+  review: Review;
+}
+
+const actions: { status: ReviewStatus; label: string; className: string }[] = [
+  {
+    status: "approved",
+    label: "Approve",
+    className: "text-green-700 hover:text-green-900",
+  },
+  {
+    status: "rejected",
+    label: "Reject",
+    className: "text-red-600 hover:text-red-800",
+  },
+  {
+    status: "pending",
+    label: "Back to pending",
+    className: "text-gray-500 hover:text-gray-700",
+  },
+];
+
+// Approve, reject or requeue one review in /admin/reviews
+export default function ModerateReviewButtons({
+  review,
+}: ModerateReviewButtonsProps) {
+  const router = useRouter();
+  const [saving, setSaving] = useState(false);
+
+  const moderate = async (status: ReviewStatus) => {
+    setSaving(true);
+    try {
+      const response = await fetch(
+        `/api/admin/reviews/${encodeURIComponent(review.id)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status }),
+        }
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to update review: ${response.status}`);
+      }
+      router.refresh();
+    } catch (err) {
+      window.alert("Couldn't update the review. Please try again.");
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-3 text-sm">
+      {actions
+        .filter((action) => action.status !== review.status)
+        .map((action) => (
+          <button
+            key={action.status}
+            type="button"
+            onClick={() => moderate(action.status)}
+            disabled={saving}
+            data-testid={`review-${action.status}`}
+            className={`${action.className} disabled:opacity-50`}
+          >
+            {action.label}
+          </button>
+        ))}
+    </div>
+  );
+}
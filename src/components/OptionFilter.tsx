@@ -0,0 +1,66 @@
+interface OptionFilterProps {
+  title: string;
+  // Prefix for the section and checkbox test ids, e.g. "language"
+  testId: string;
+  options: string[];
+  // Text shown for an option when it isn't the option itself, e.g. an id
+  labels?: Record<string, string>;
+  selected: string[];
+  counts: Record<string, number>;
+  onChange: (selected: string[]) => void;
+}
+
+// Multi-select checkbox list with a result count per option
+export default function OptionFilter({
+  title,
+  testId,
+  options,
+  labels,
+  selected,
+  counts,
+  onChange,
+}: OptionFilterProps) {
+  const toggle = (option: string) => {
+    onChange(
+      selected.includes(option)
+        ? selected.filter((o) => o !== option)
+        : [...selected, option]
+    );
+  };
+
+  return (
+    <fieldset className="mb-6 text-black">
+      <legend
+        className="font-semibold mb-3 text-gray-700"
+        data-testid={`filter-header-${testId}`}
+      >
+        {title}
+      </legend>
+      <div className="space-y-2 max-h-48 overflow-y-auto">
+        {options.map((option) => {
+          const formattedId = option.replace(/\s+/g, "-").replace(/\/+/g, "-");
+          return (
+            <label
+              key={option}
+              className="flex items-center space-x-2 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={() => toggle(option)}
+                data-testid={`filter-${testId}-${formattedId}`}
+                className="h-4 w-4 text-blue-600 rounded"
+              />
+              <span className="text-sm flex-grow">
+                {labels?.[option] ?? option}
+              </span>
+              <span className="text-xs text-gray-500">
+                {counts[option] ?? 0}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+import useI18n from "@/hooks/useI18n";
+
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  onChange: (page: number) => void;
+}
+
+// First, last and the pages around the current one, with gaps between
+function visiblePages(page: number, pageCount: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let n = 1; n <= pageCount; n++) {
+    if (n === 1 || n === pageCount || Math.abs(n - page) <= 1) {
+      pages.push(n);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+export default function Pagination({
+  page,
+  pageCount,
+  onChange,
+}: PaginationProps) {
+  const { t } = useI18n();
+  if (pageCount <= 1) return null;
+
+  const buttonClass =
+    "min-w-9 px-3 py-1 rounded-lg border text-sm disabled:text-gray-400 disabled:cursor-not-allowed";
+
+  return (
+    <nav
+      aria-label={t("pagination.label")}
+      data-testid="pagination"
+      className="flex flex-wrap justify-center items-center gap-2 mt-6"
+    >
+      <button
+        type="button"
+        onClick={() => onChange(page - 1)}
+        disabled={page <= 1}
+        data-testid="page-prev"
+        className={`${buttonClass} bg-white border-gray-300 text-gray-700 hover:bg-gray-50`}
+      >
+        {t("pagination.previous")}
+      </button>
+      {visiblePages(page, pageCount).map((n, i) =>
+        n === null ? (
+          <span key={`gap-${i}`} className="px-1 text-gray-500">
+            …
+          </span>
+        ) : (
+          <button
+            key={n}
+            type="button"
+            onClick={() => onChange(n)}
+            aria-current={n === page ? "page" : undefined}
+            data-testid={`page-${n}`}
+            className={`${buttonClass} ${
+              n === page
+                ? "bg-blue-600 border-blue-600 text-white"
+                : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {n}
+          </button>
+        )
+      )}
+      <button
+        type="button"
+        onClick={() => onChange(page + 1)}
+        disabled={page >= pageCount}
+        data-testid="page-next"
+        className={`${buttonClass} bg-white border-gray-300 text-gray-700 hover:bg-gray-50`}
+      >
+        {t("pagination.next")}
+      </button>
+    </nav>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+import { useState } from "react";
+import useI18n from "@/hooks/useI18n";
+import type { Patient } from "@/lib/booking/types";
+import { validatePatient, type PatientErrors } from "@/lib/booking/validation";
+import type { MessageKey } from "@/lib/i18n/translate";
+
+interface PatientFormProps {
+  submitting: boolean;
+  // Errors reported by the server for the last submission
+  serverErrors?: PatientErrors;
+  onSubmit: (patient: Patient) => void;
+  onBack: () => void;
+}
+
+const fields: {
+  name: keyof Patient;
+  label: MessageKey;
+  type: string;
+  required?: boolean;
+  autoComplete?: string;
+}[] = [
+  {
+    name: "name",
+    label: "booking.patientName",
+    type: "text",
+    required: true,
+    autoComplete: "name",
+  },
+  {
+    name: "phone",
+    label: "booking.phone",
+    type: "tel",
+    required: true,
+    autoComplete: "tel",
+  },
+  {
+    name: "email",
+    label: "booking.email",
+    type: "email",
+    autoComplete: "email",
+  },
+  { name: "age", label: "booking.age", type: "number" },
+];
+
+export default function PatientForm({
+  submitting,
+  serverErrors,
+  onSubmit,
+  onBack,
+}: PatientFormProps) {
+  const { t } = useI18n();
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<PatientErrors>({});
+  const shownErrors = { ...serverErrors, ...errors };
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setValues((prev) => ({ ...prev, [name]: value }));
+    setErrors((prev) => ({ ...prev, [name]: undefined }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = validatePatient(values);
+    if (result.errors) {
+      setErrors(result.errors);
+      return;
+    }
+    onSubmit(result.patient);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-3 text-black">
+      {fields.map((field) => (
+        <div key={field.name}>
+          <label
+            htmlFor={`patient-${field.name}`}
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            {t(field.label)}
+          </label>
+          <input
+            id={`patient-${field.name}`}
+            name={field.name}
+            type={field.type}
+            required={field.required}
+            autoComplete={field.autoComplete}
+            value={values[field.name] ?? ""}
+            onChange={handleChange}
+            aria-invalid={!!shownErrors[field.name]}
+            aria-describedby={
+              shownErrors[field.name]
+                ? `patient-${field.name}-error`
+                : undefined
+            }
+            data-testid={`patient-${field.name}`}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          {shownErrors[field.name] && (
+            <p
+              id={`patient-${field.name}-error`}
+              className="text-xs text-red-600 mt-1"
+            >
+              {t(shownErrors[field.name]!)}
+            </p>
+          )}
+        </div>
+      ))}
+
+      <div>
+        <label
+          htmlFor="patient-reason"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          {t("booking.reason")}
+        </label>
+        <textarea
+          id="patient-reason"
+          name="reason"
+          rows={3}
+          value={values.reason ?? ""}
+          onChange={handleChange}
+          aria-invalid={!!shownErrors.reason}
+          className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        {shownErrors.reason && (
+          <p className="text-xs text-red-600 mt-1">{t(shownErrors.reason)}</p>
+        )}
+      </div>
+
+      <div className="flex justify-between pt-2">
+        <button
+          type="button"
+          onClick={onBack}
+          className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+        >
+          {t("booking.back")}
+        </button>
+        <button
+          type="submit"
+          disabled={submitting}
+          data-testid="confirm-booking"
+          className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition shadow-sm disabled:opacity-50"
+        >
+          {submitting ? t("booking.booking") : t("booking.confirm")}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+import { useEffect, useState } from "react";
+import useDialog from "@/hooks/useDialog";
+import useI18n from "@/hooks/useI18n";
+
+interface QrCodeDialogProps {
+  url: string;
+  onClose: () => void;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(
+    /[&<>"]/g,
+    (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[char]!
+  );
+
+// QR code for a link, ready to print or download for a clinic desk
+export default function QrCodeDialog({ url, onClose }: QrCodeDialogProps) {
+  const { locale, t } = useI18n();
+  const [svg, setSvg] = useState<string | null>(null);
+
+  // The encoder is only needed here, so load it on demand
+  useEffect(() => {
+    let cancelled = false;
+    import("qrcode")
+      .then((QRCode) =>
+        QRCode.toString(url, {
+          type: "svg",
+          margin: 2,
+          errorCorrectionLevel: "M",
+        })
+      )
+      .then((markup) => {
+        if (!cancelled) setSvg(markup);
+      })
+      .catch((err) => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  // Keep focus inside and close on Escape
+  const dialogRef = useDialog<HTMLDivElement>(true, onClose);
+
+  const print = () => {
+    if (!svg) return;
+    const page = window.open("", "_blank", "width=480,height=640");
+    if (!page) return;
+    page.document.write(
+      `<!doctype html><html lang="${locale}">` +
+        `<title>${escapeHtml(t("share.printTitle"))}</title>` +
+        `<body style="font-family:sans-serif;text-align:center;margin:40px">` +
+        `<div style="width:320px;margin:0 auto">${svg}</div>` +
+        `<p>${escapeHtml(t("share.printCaption"))}</p>` +
+        `<p style="font-size:12px;word-break:break-all">${escapeHtml(url)}</p>` +
+        `</body>`
+    );
+    page.document.close();
+    page.focus();
+    page.print();
+  };
+
+  const downloadHref = svg
+    ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+    : undefined;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="qr-title"
+        data-testid="qr-dialog"
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white w-full max-w-sm rounded-lg shadow-lg p-5 text-center text-gray-800"
+      >
+        <h2 id="qr-title" className="text-lg font-semibold mb-3">
+          {t("share.qrTitle")}
+        </h2>
+        <div className="w-64 h-64 mx-auto mb-3 flex items-center justify-center">
+          {svg ? (
+            <div
+              className="w-full h-full [&>svg]:w-full [&>svg]:h-full"
+              role="img"
+              aria-label={t("share.qrImage", { url })}
+              dangerouslySetInnerHTML={{ __html: svg }}
+            />
+          ) : (
+            <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-blue-500"></div>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 break-all mb-4">{url}</p>
+        <div className="flex justify-center gap-3">
+          <button
+            type="button"
+            onClick={print}
+            disabled={!svg}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 text-sm disabled:opacity-50"
+          >
+            {t("share.print")}
+          </button>
+          <a
+            href={downloadHref}
+            download="doctor-search-qr.svg"
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
+          >
+            {t("share.download")}
+          </a>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+          >
+            {t("common.close")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+import { useEffect, useState } from "react";
+import useI18n from "@/hooks/useI18n";
+import type { NumberRange } from "@/lib/doctors/types";
+
+// A ready-made range offered below the slider, with how many results it has
+export interface RangePreset {
+  id: string;
+  label: string;
+  min: number | null;
+  max: number | null;
+  count: number;
+}
+
+interface RangeFilterProps {
+  title: string;
+  // Prefix for the section and handle test ids, e.g. "fee"
+  testId: string;
+  bounds: NumberRange;
+  step?: number;
+  // Selected bounds; null means the handle sits at the end of the scale
+  min: number | null;
+  max: number | null;
+  format: (value: number) => string;
+  presets?: RangePreset[];
+  onChange: (min: number | null, max: number | null) => void;
+}
+
+// Dual-handle slider. Dragging only moves the handles; the range is applied
+// when a handle is released so the URL and results don't update per pixel.
+export default function RangeFilter({
+  title,
+  testId,
+  bounds,
+  step = 1,
+  min,
+  max,
+  format,
+  presets = [],
+  onChange,
+}: RangeFilterProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<[number, number]>([
+    min ?? bounds.min,
+    max ?? bounds.max,
+  ]);
+
+  // Follow outside changes such as Clear All or back/forward
+  useEffect(() => {
+    setDraft([min ?? bounds.min, max ?? bounds.max]);
+  }, [min, max, bounds.min, bounds.max]);
+
+  const commit = () => {
+    const [low, high] = draft;
+    const nextMin = low <= bounds.min ? null : low;
+    const nextMax = high >= bounds.max ? null : high;
+    if (nextMin !== min || nextMax !== max) {
+      onChange(nextMin, nextMax);
+    }
+  };
+
+  const handleProps = {
+    type: "range",
+    min: bounds.min,
+    max: bounds.max,
+    step,
+    onPointerUp: commit,
+    onKeyUp: commit,
+    onBlur: commit,
+    className:
+      "absolute w-full h-2 appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-blue-600 [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-blue-600",
+  } as const;
+
+  const span = bounds.max - bounds.min || 1;
+  const [low, high] = draft;
+
+  return (
+    <fieldset className="mb-6 text-black">
+      <legend
+        className="font-semibold mb-3 text-gray-700"
+        data-testid={`filter-header-${testId}`}
+      >
+        {title}
+      </legend>
+      <div className="relative h-4 mb-2 flex items-center">
+        <div className="absolute w-full h-1 bg-gray-200 rounded" />
+        <div
+          className="absolute h-1 bg-blue-500 rounded"
+          style={{
+            left: `${((low - bounds.min) / span) * 100}%`,
+            right: `${((bounds.max - high) / span) * 100}%`,
+          }}
+        />
+        <input
+          {...handleProps}
+          value={low}
+          onChange={(e) => setDraft([Math.min(+e.target.value, high), high])}
+          aria-label={t("filters.minimum", { title: title.toLowerCase() })}
+          data-testid={`filter-${testId}-min`}
+        />
+        <input
+          {...handleProps}
+          value={high}
+          onChange={(e) => setDraft([low, Math.max(+e.target.value, low)])}
+          aria-label={t("filters.maximum", { title: title.toLowerCase() })}
+          data-testid={`filter-${testId}-max`}
+        />
+      </div>
+      <div className="flex justify-between text-sm text-gray-600">
+        <span>{format(low)}</span>
+        <span>{format(high)}</span>
+      </div>
+      {presets.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {presets.map((preset) => {
+            const active = preset.min === min && preset.max === max;
+            return (
+              <button
+                key={preset.id}
+                type="button"
+                aria-pressed={active}
+                // Picking the active range again clears it
+                onClick={() =>
+                  active
+                    ? onChange(null, null)
+                    : onChange(preset.min, preset.max)
+                }
+                data-testid={`filter-${testId}-preset-${preset.id}`}
+                className={`flex w-full items-center justify-between rounded px-2 py-1 text-sm ${
+                  active ? "bg-blue-100 text-blue-800" : "hover:bg-gray-100"
+                }`}
+              >
+                <span>{preset.label}</span>
+                <span className="text-xs text-gray-500">{preset.count}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1,26 @@
+import { StarIcon } from "@/components/icons";
+
+interface RatingStarsProps {
+  // 0 to 5; halves round to the nearest whole star
+  rating: number;
+  className?: string;
+}
+
+// Five stars, filled up to the rating. Decorative: pair it with the number.
+export default function RatingStars({
+  rating,
+  className = "h-4 w-4",
+}: RatingStarsProps) {
+  const filled = Math.round(rating);
+  return (
+    <span className="inline-flex text-yellow-500" aria-hidden="true">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <StarIcon
+          key={star}
+          className={`${className} ${star > filled ? "text-gray-300" : ""}`}
+          filled={star <= filled}
+        />
+      ))}
+    </span>
+  );
+}
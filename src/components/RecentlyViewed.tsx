@@ -0,0 +1,62 @@
+"use client";
+import Link from "next/link";
+import useI18n from "@/hooks/useI18n";
+import useLocalStore from "@/hooks/useLocalStore";
+import { doctorPath } from "@/lib/doctors/seo";
+import { clearRecentDoctors, recentDoctorsStore } from "@/lib/recent";
+
+// Horizontal strip of the profiles opened most recently
+export default function RecentlyViewed() {
+  const { t, href } = useI18n();
+  const doctors = useLocalStore(recentDoctorsStore);
+
+  if (doctors.length === 0) return null;
+
+  return (
+    <section
+      aria-labelledby="recently-viewed-title"
+      data-testid="recently-viewed"
+      className="mb-4"
+    >
+      <div className="flex justify-between items-center mb-2">
+        <h2
+          id="recently-viewed-title"
+          className="text-sm font-semibold text-gray-700"
+        >
+          {t("recent.heading")}
+        </h2>
+        <button
+          type="button"
+          onClick={clearRecentDoctors}
+          data-testid="clear-recently-viewed"
+          className="text-xs text-blue-600 hover:text-blue-800"
+        >
+          {t("common.clear")}
+        </button>
+      </div>
+      <ul className="flex gap-3 overflow-x-auto pb-2">
+        {doctors.map((doctor) => (
+          <li key={doctor.id} className="flex-shrink-0">
+            <Link
+              href={href(doctorPath(doctor.id))}
+              data-testid="recently-viewed-item"
+              className="flex items-center gap-2 w-56 bg-white p-2 rounded-lg shadow-sm hover:shadow-md transition"
+            >
+              <span className="w-9 h-9 bg-blue-50 rounded-full flex items-center justify-center text-blue-500 flex-shrink-0">
+                {doctor.name.charAt(0)}
+              </span>
+              <span className="min-w-0">
+                <span className="block text-sm font-medium text-gray-800 truncate">
+                  {doctor.name}
+                </span>
+                <span className="block text-xs text-gray-500 truncate">
+                  {doctor.specialities.join(", ")}
+                </span>
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
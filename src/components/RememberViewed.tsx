@@ -0,0 +1,13 @@
+"use client";
+import { useEffect } from "react";
+import type { Doctor } from "@/lib/doctors/types";
+import { rememberDoctor } from "@/lib/recent";
+
+// Adds the profile being shown to the recently viewed list; renders nothing
+export default function RememberViewed({ doctor }: { doctor: Doctor }) {
+  useEffect(() => {
+    rememberDoctor(doctor);
+  }, [doctor]);
+
+  return null;
+}
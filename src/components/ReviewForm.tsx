@@ -0,0 +1,189 @@
+"use client";
+import { useState } from "react";
+import { StarIcon } from "@/components/icons";
+import useI18n from "@/hooks/useI18n";
+import type { ReviewInput } from "@/lib/reviews/types";
+import { validateReview, type ReviewErrors } from "@/lib/reviews/validation";
+
+interface ReviewFormProps {
+  doctorId: string;
+  doctorName: string;
+}
+
+const inputClass =
+  "w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+// Star rating plus text; the review waits for moderation before it's shown
+export default function ReviewForm({ doctorId, doctorName }: ReviewFormProps) {
+  const { t } = useI18n();
+  const [values, setValues] = useState<Partial<ReviewInput>>({});
+  const [errors, setErrors] = useState<ReviewErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  const change = (changes: Partial<ReviewInput>) => {
+    setValues((prev) => ({ ...prev, ...changes }));
+    setErrors((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        Object.keys(changes).map((key) => [key, undefined])
+      ),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = validateReview(values);
+    if (result.errors) {
+      setErrors(result.errors);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/doctors/${encodeURIComponent(doctorId)}/reviews`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(result.review),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setErrors(data.fieldErrors ?? {});
+        setError(t("reviewForm.failed"));
+        return;
+      }
+      setSubmitted(true);
+    } catch (err) {
+      setError(t("reviewForm.failedRetry"));
+      console.error(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <p
+        role="status"
+        data-testid="review-submitted"
+        className="bg-green-50 border border-green-200 text-green-700 p-3 rounded-lg text-sm"
+      >
+        {t("reviewForm.thanks")}
+      </p>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      noValidate
+      className="space-y-3 text-black"
+      data-testid="review-form"
+    >
+      <h3 className="font-medium text-gray-800">
+        {t("reviewForm.heading", { name: doctorName })}
+      </h3>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-700 mb-1">
+          {t("reviewForm.rating")}
+        </legend>
+        <div className="flex gap-1">
+          {[1, 2, 3, 4, 5].map((star) => (
+            <label key={star} className="cursor-pointer">
+              <input
+                type="radio"
+                name="rating"
+                value={star}
+                checked={values.rating === star}
+                onChange={() => change({ rating: star })}
+                data-testid={`review-rating-${star}`}
+                className="sr-only peer"
+              />
+              <span className="sr-only">
+                {t("counts.stars", { count: star })}
+              </span>
+              <StarIcon
+                className={`h-7 w-7 rounded peer-focus-visible:ring-2 peer-focus-visible:ring-blue-500 ${
+                  (values.rating ?? 0) >= star
+                    ? "text-yellow-500"
+                    : "text-gray-300"
+                }`}
+                filled={(values.rating ?? 0) >= star}
+              />
+            </label>
+          ))}
+        </div>
+        {errors.rating && (
+          <p className="text-xs text-red-600 mt-1">{t(errors.rating)}</p>
+        )}
+      </fieldset>
+
+      <div>
+        <label
+          htmlFor="review-name"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          {t("reviewForm.name")}
+        </label>
+        <input
+          id="review-name"
+          type="text"
+          autoComplete="name"
+          value={values.name ?? ""}
+          onChange={(e) => change({ name: e.target.value })}
+          aria-invalid={!!errors.name}
+          data-testid="review-name"
+          className={inputClass}
+        />
+        {errors.name && (
+          <p className="text-xs text-red-600 mt-1">{t(errors.name)}</p>
+        )}
+      </div>
+
+      <div>
+        <label
+          htmlFor="review-text"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          {t("reviewForm.text")}
+        </label>
+        <textarea
+          id="review-text"
+          rows={4}
+          value={values.text ?? ""}
+          onChange={(e) => change({ text: e.target.value })}
+          aria-invalid={!!errors.text}
+          data-testid="review-text"
+          className={inputClass}
+        />
+        {errors.text && (
+          <p className="text-xs text-red-600 mt-1">{t(errors.text)}</p>
+        )}
+      </div>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={submitting}
+          data-testid="review-submit"
+          className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition shadow-sm disabled:opacity-50"
+        >
+          {submitting ? t("reviewForm.sending") : t("reviewForm.submit")}
+        </button>
+      </div>
+    </form>
+  );
+}
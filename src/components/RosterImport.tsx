@@ -0,0 +1,203 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import type { ImportFormat, RowError } from "@/lib/admin/import";
+import { csvColumns } from "@/lib/admin/csv";
+import type { ImportResult } from "@/lib/doctors/roster-store";
+
+const csvTemplate = `data:text/csv;charset=utf-8,${encodeURIComponent(
+  csvColumns.join(",") + "\n"
+)}`;
+
+// Bulk add or update doctors from a CSV or JSON file
+export default function RosterImport() {
+  const router = useRouter();
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [text, setText] = useState("");
+  const [replace, setReplace] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rows, setRows] = useState<RowError[]>([]);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.name.toLowerCase().endsWith(".json")) setFormat("json");
+    if (file.name.toLowerCase().endsWith(".csv")) setFormat("csv");
+    setText(await file.text());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (
+      replace &&
+      !window.confirm("Replace the whole roster with the imported doctors?")
+    ) {
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    setRows([]);
+    setResult(null);
+
+    try {
+      const response = await fetch("/api/admin/doctors/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format, text, replace }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error ?? "Failed to import doctors");
+        setRows(data.rows ?? []);
+        return;
+      }
+
+      setResult(data);
+      router.refresh();
+    } catch (err) {
+      setError("Couldn't import the file. Please try again.");
+      console.error(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white rounded-lg shadow-sm p-6 space-y-4 text-black"
+    >
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label
+            htmlFor="import-file"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            File
+          </label>
+          <input
+            id="import-file"
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFile}
+            data-testid="import-file"
+            className="text-sm"
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="import-format"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Format
+          </label>
+          <select
+            id="import-format"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ImportFormat)}
+            data-testid="import-format"
+            className="p-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+        </div>
+        <a
+          href={csvTemplate}
+          download="doctors-template.csv"
+          className="text-sm text-blue-600 hover:text-blue-800 pb-2"
+        >
+          Download CSV template
+        </a>
+      </div>
+
+      <div>
+        <label
+          htmlFor="import-text"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Or paste the contents
+        </label>
+        <textarea
+          id="import-text"
+          rows={10}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          data-testid="import-text"
+          className="w-full p-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          CSV columns: {csvColumns.join(", ")}. Separate specialities and
+          languages with &quot;;&quot;. JSON takes a list of records shaped like
+          the doctor API.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={replace}
+          onChange={(e) => setReplace(e.target.checked)}
+          className="h-4 w-4 text-blue-600"
+        />
+        Replace the whole roster (otherwise doctors with the same id are updated
+        and new ones added)
+      </label>
+
+      {error && (
+        <div
+          role="alert"
+          className="bg-red-50 border border-red-200 text-red-700 p-3 rounded-lg text-sm"
+          data-testid="import-error"
+        >
+          <p className="font-medium">{error}</p>
+          {rows.length > 0 && (
+            <table className="w-full mt-2 text-left">
+              <thead>
+                <tr>
+                  <th className="pr-4 font-semibold">Row</th>
+                  <th className="pr-4 font-semibold">Id</th>
+                  <th className="font-semibold">Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.row} data-testid="import-row-error">
+                    <td className="pr-4 align-top">{row.row}</td>
+                    <td className="pr-4 align-top">{row.id ?? "-"}</td>
+                    <td>{row.issues.join("; ")}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {result && (
+        <p
+          role="status"
+          className="bg-green-50 border border-green-200 text-green-700 p-3 rounded-lg text-sm"
+          data-testid="import-result"
+        >
+          Imported: {result.created} added, {result.updated} updated.
+        </p>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={submitting || !text.trim()}
+          data-testid="import-submit"
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition shadow-sm disabled:opacity-50"
+        >
+          {submitting ? "Importing..." : "Import"}
+        </button>
+      </div>
+    </form>
+  );
+}
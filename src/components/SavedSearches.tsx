@@ -0,0 +1,144 @@
+"use client";
+import { useState } from "react";
+import useI18n from "@/hooks/useI18n";
+import useLocalStore from "@/hooks/useLocalStore";
+import type { DoctorQuery } from "@/lib/doctors/types";
+import {
+  deleteSavedSearch,
+  describeQuery,
+  presetParams,
+  renameSavedSearch,
+  saveSearch,
+  savedSearchesStore,
+} from "@/lib/saved-searches";
+
+interface SavedSearchesProps {
+  query: DoctorQuery;
+  // Query string of the preset to switch to
+  onApply: (params: string) => void;
+}
+
+// Named presets of the current filters, kept in this browser
+export default function SavedSearches({ query, onApply }: SavedSearchesProps) {
+  const { locale, t } = useI18n();
+  const searches = useLocalStore(savedSearchesStore);
+  const [name, setName] = useState("");
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(
+    null
+  );
+
+  const current = presetParams(query);
+  const alreadySaved = searches.some((search) => search.params === current);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveSearch(name, query, locale);
+    setName("");
+  };
+
+  const finishRename = () => {
+    if (editing) renameSavedSearch(editing.id, editing.name);
+    setEditing(null);
+  };
+
+  return (
+    <div className="mb-6 text-black">
+      <h3
+        className="font-semibold mb-3 text-gray-700"
+        data-testid="filter-header-saved-searches"
+      >
+        {t("savedSearches.heading")}
+      </h3>
+      <form onSubmit={handleSave} className="flex gap-2 mb-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={describeQuery(query, locale)}
+          aria-label={t("savedSearches.nameLabel")}
+          maxLength={60}
+          data-testid="saved-search-name"
+          className="flex-grow min-w-0 p-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <button
+          type="submit"
+          disabled={alreadySaved}
+          data-testid="saved-search-save"
+          className="px-3 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          {alreadySaved ? t("savedSearches.saved") : t("savedSearches.save")}
+        </button>
+      </form>
+
+      {searches.length > 0 && (
+        <ul className="space-y-2">
+          {searches.map((search) => (
+            <li
+              key={search.id}
+              data-testid="saved-search-item"
+              className="flex items-center gap-2 text-sm"
+            >
+              {editing?.id === search.id ? (
+                <input
+                  type="text"
+                  value={editing.name}
+                  onChange={(e) =>
+                    setEditing({ id: search.id, name: e.target.value })
+                  }
+                  onBlur={finishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") finishRename();
+                    if (e.key === "Escape") setEditing(null);
+                  }}
+                  aria-label={t("savedSearches.renameNamed", {
+                    name: search.name,
+                  })}
+                  maxLength={60}
+                  autoFocus
+                  className="flex-grow min-w-0 p-1 border border-gray-300 rounded text-sm"
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => onApply(search.params)}
+                  aria-current={search.params === current ? "true" : undefined}
+                  data-testid="saved-search-apply"
+                  className={`flex-grow min-w-0 text-left truncate hover:text-blue-600 ${
+                    search.params === current
+                      ? "font-semibold text-blue-700"
+                      : ""
+                  }`}
+                  title={search.name}
+                >
+                  {search.name}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setEditing({ id: search.id, name: search.name })}
+                aria-label={t("savedSearches.renameNamed", {
+                  name: search.name,
+                })}
+                data-testid="saved-search-rename"
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                {t("savedSearches.rename")}
+              </button>
+              <button
+                type="button"
+                onClick={() => deleteSavedSearch(search.id)}
+                aria-label={t("savedSearches.deleteNamed", {
+                  name: search.name,
+                })}
+                data-testid="saved-search-delete"
+                className="text-xs text-gray-500 hover:text-red-600"
+              >
+                {t("savedSearches.delete")}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
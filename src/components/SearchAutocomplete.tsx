@@ -0,0 +1,331 @@
+"use client";
+import { useEffect, useId, useRef, useState } from "react";
+import Highlight from "@/components/Highlight";
+import { ClockIcon, SearchIcon } from "@/components/icons";
+import useI18n from "@/hooks/useI18n";
+import type {
+  Suggestion,
+  SuggestionGroup,
+  SuggestResponse,
+} from "@/lib/search/suggest";
+
+interface SearchAutocompleteProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (suggestion: Suggestion) => void;
+  label: string;
+  placeholder?: string;
+  inputTestId?: string;
+  variant?: "header" | "page";
+  // Wait this long after the last keystroke before asking for suggestions
+  debounceMs?: number;
+  // Past searches offered while the box is focused and empty
+  recentSearches?: string[];
+  onClearRecent?: () => void;
+  // Enter pressed on the typed text, or a recent search picked
+  onSubmit?: (value: string) => void;
+}
+
+// A past search, listed like a suggestion while the box is empty
+interface RecentItem {
+  type: "recent";
+  value: string;
+  label: string;
+  detail?: undefined;
+  image?: undefined;
+  terms?: undefined;
+}
+
+type Item = Suggestion | RecentItem;
+
+interface ItemGroup {
+  type: Item["type"];
+  items: Item[];
+}
+
+const inputStyles = {
+  header:
+    "w-full py-2 px-4 rounded-full border-none focus:ring-2 focus:ring-blue-300 focus:outline-none text-black bg-white",
+  page: "w-full p-3 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black",
+};
+
+// Search box with grouped suggestions (doctors, specialities, clinics,
+// localities), following the WAI-ARIA combobox pattern
+export default function SearchAutocomplete({
+  value,
+  onChange,
+  onSelect,
+  label,
+  placeholder,
+  inputTestId,
+  variant = "page",
+  debounceMs = 200,
+  recentSearches = [],
+  onClearRecent,
+  onSubmit,
+}: SearchAutocompleteProps) {
+  const { t } = useI18n();
+  const id = useId();
+  const listboxId = `${id}-listbox`;
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const [groups, setGroups] = useState<SuggestionGroup[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const showingRecent = !value.trim() && recentSearches.length > 0;
+  const shownGroups: ItemGroup[] = showingRecent
+    ? [
+        {
+          type: "recent",
+          items: recentSearches.map((search) => ({
+            type: "recent",
+            value: search,
+            label: search,
+          })),
+        },
+      ]
+    : groups;
+  const items = shownGroups.flatMap((group) => group.items);
+  const expanded = open && items.length > 0;
+  const optionId = (index: number) => `${id}-option-${index}`;
+
+  // Fetch suggestions once typing pauses
+  useEffect(() => {
+    const query = value.trim();
+    if (!query) {
+      setGroups([]);
+      setActiveIndex(-1);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/suggest?${new URLSearchParams({ q: query })}`, {
+        signal: controller.signal,
+      })
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data: SuggestResponse | null) => {
+          // An error answer has no groups, show no suggestions for it
+          setGroups(Array.isArray(data?.groups) ? data.groups : []);
+          setActiveIndex(-1);
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) return;
+          setGroups([]);
+          console.error(err);
+        });
+    }, debounceMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value, debounceMs]);
+
+  // Close when clicking outside this instance
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, []);
+
+  // Keep the active option in view while arrowing through a long list
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    document
+      .getElementById(`${id}-option-${activeIndex}`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex, id]);
+
+  const select = (item: Item) => {
+    setOpen(false);
+    setActiveIndex(-1);
+    if (item.type === "recent") {
+      onChange(item.value);
+      onSubmit?.(item.value);
+    } else {
+      onSelect(item);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setOpen(true);
+        if (items.length > 0) {
+          setActiveIndex((index) => (index + 1) % items.length);
+        }
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setOpen(true);
+        if (items.length > 0) {
+          setActiveIndex((index) =>
+            index <= 0 ? items.length - 1 : index - 1
+          );
+        }
+        break;
+      case "Enter":
+        if (expanded && activeIndex >= 0) {
+          e.preventDefault();
+          select(items[activeIndex]);
+        } else {
+          setOpen(false);
+          if (value.trim()) onSubmit?.(value);
+        }
+        break;
+      case "Escape":
+        if (expanded) {
+          setOpen(false);
+          setActiveIndex(-1);
+        } else if (value) {
+          onChange("");
+        }
+        break;
+      case "Tab":
+        setOpen(false);
+        break;
+    }
+  };
+
+  let index = -1;
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <label htmlFor={`${id}-input`} className="sr-only">
+        {label}
+      </label>
+      <input
+        id={`${id}-input`}
+        type="text"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={listboxId}
+        aria-activedescendant={
+          expanded && activeIndex >= 0 ? optionId(activeIndex) : undefined
+        }
+        autoComplete="off"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        data-testid={inputTestId}
+        className={inputStyles[variant]}
+      />
+      {variant === "page" && (
+        <SearchIcon className="h-5 w-5 absolute right-3 top-3.5 text-gray-400 pointer-events-none" />
+      )}
+
+      <div
+        hidden={!expanded}
+        className="absolute z-10 w-full bg-white rounded-lg mt-1 shadow-lg border border-gray-200 text-left"
+      >
+        <div
+          id={listboxId}
+          role="listbox"
+          aria-label={t("search.suggestions", { label })}
+          className="max-h-96 overflow-y-auto"
+        >
+          {shownGroups.map((group) => (
+            <div
+              key={group.type}
+              role="group"
+              aria-labelledby={`${id}-group-${group.type}`}
+            >
+              <div
+                id={`${id}-group-${group.type}`}
+                role="presentation"
+                className="px-3 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500"
+              >
+                {t(`search.groups.${group.type}`)}
+              </div>
+              {group.items.map((item) => {
+                index += 1;
+                const itemIndex = index;
+                return (
+                  <div
+                    key={`${item.type}:${item.value}`}
+                    id={optionId(itemIndex)}
+                    role="option"
+                    aria-selected={itemIndex === activeIndex}
+                    data-testid={
+                      item.type === "recent"
+                        ? "recent-search-item"
+                        : "suggestion-item"
+                    }
+                    data-suggestion-type={item.type}
+                    // Keep focus in the input so the listbox stays open
+                    onMouseDown={(e) => e.preventDefault()}
+                    onMouseEnter={() => setActiveIndex(itemIndex)}
+                    onClick={() => select(item)}
+                    className={`px-3 py-2 cursor-pointer flex items-center ${
+                      itemIndex === activeIndex
+                        ? "bg-blue-50"
+                        : "hover:bg-gray-100"
+                    }`}
+                  >
+                    {item.type === "recent" && (
+                      <ClockIcon className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />
+                    )}
+                    {item.type === "doctor" && (
+                      <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center mr-2 text-blue-600 flex-shrink-0">
+                        {item.image ? (
+                          <img
+                            src={item.image}
+                            alt=""
+                            className="w-full h-full object-cover rounded-full"
+                          />
+                        ) : (
+                          item.label.charAt(0)
+                        )}
+                      </div>
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-medium text-black truncate">
+                        <Highlight text={item.label} terms={item.terms} />
+                      </p>
+                      {item.detail && (
+                        <p className="text-xs text-gray-600 truncate">
+                          {item.detail}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+        {showingRecent && onClearRecent && (
+          <button
+            type="button"
+            // Keep focus in the input so the dropdown stays open
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onClearRecent}
+            data-testid="clear-recent-searches"
+            className="w-full px-3 py-2 text-xs text-blue-600 hover:text-blue-800 text-right border-t border-gray-100"
+          >
+            {t("search.clearRecent")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
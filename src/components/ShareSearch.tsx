@@ -0,0 +1,63 @@
+"use client";
+import { useCallback, useState } from "react";
+import QrCodeDialog from "@/components/QrCodeDialog";
+import useI18n from "@/hooks/useI18n";
+import type { DoctorQuery } from "@/lib/doctors/types";
+import { canonicalQuery, encodeQuery } from "@/lib/doctors/url-state";
+
+interface ShareSearchProps {
+  query: DoctorQuery;
+}
+
+// Link to this exact view, with the filters in a fixed order so the same
+// view always gives the same URL
+function shareUrl(query: DoctorQuery): string {
+  const params = encodeQuery(canonicalQuery(query)).toString();
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}${params ? `?${params}` : ""}`;
+}
+
+// "Copy link" and "QR code" actions for the current results
+export default function ShareSearch({ query }: ShareSearchProps) {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+  const [qrUrl, setQrUrl] = useState<string | null>(null);
+  const closeQr = useCallback(() => setQrUrl(null), []);
+
+  const copyLink = async () => {
+    const url = shareUrl(query);
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      // Clipboard blocked (e.g. plain http): let the user copy it by hand
+      window.prompt(t("share.copyPrompt"), url);
+      return;
+    }
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <button
+        type="button"
+        onClick={copyLink}
+        data-testid="copy-link"
+        className="text-blue-600 hover:text-blue-800"
+      >
+        <span aria-live="polite">
+          {copied ? t("share.copied") : t("share.copyLink")}
+        </span>
+      </button>
+      <button
+        type="button"
+        onClick={() => setQrUrl(shareUrl(query))}
+        data-testid="show-qr"
+        className="text-blue-600 hover:text-blue-800"
+      >
+        {t("share.qrCode")}
+      </button>
+      {qrUrl && <QrCodeDialog url={qrUrl} onClose={closeQr} />}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+import { HeartIcon } from "@/components/icons";
+import useI18n from "@/hooks/useI18n";
+import useLocalStore from "@/hooks/useLocalStore";
+import type { Doctor } from "@/lib/doctors/types";
+import {
+  isShortlisted,
+  shortlistStore,
+  toggleShortlist,
+} from "@/lib/shortlist";
+
+interface ShortlistButtonProps {
+  doctor: Doctor;
+  className?: string;
+}
+
+// Heart toggling a doctor in and out of the shortlist
+export default function ShortlistButton({
+  doctor,
+  className,
+}: ShortlistButtonProps) {
+  const { t } = useI18n();
+  const shortlist = useLocalStore(shortlistStore);
+  const saved = isShortlisted(shortlist, doctor.id);
+
+  return (
+    <button
+      type="button"
+      onClick={() => toggleShortlist(doctor)}
+      aria-pressed={saved}
+      aria-label={
+        saved
+          ? t("shortlist.removeNamed", { name: doctor.name })
+          : t("shortlist.addNamed", { name: doctor.name })
+      }
+      title={saved ? t("shortlist.removeFromShortlist") : t("shortlist.add")}
+      data-testid="shortlist-toggle"
+      className={`p-1 rounded-full hover:bg-red-50 ${
+        saved ? "text-red-500" : "text-gray-400 hover:text-red-400"
+      } ${className ?? ""}`}
+    >
+      <HeartIcon className="h-6 w-6" filled={saved} />
+    </button>
+  );
+}
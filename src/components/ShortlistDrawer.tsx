@@ -0,0 +1,170 @@
+"use client";
+import { useState } from "react";
+import Link from "next/link";
+import { CloseIcon, HeartIcon } from "@/components/icons";
+import useDialog from "@/hooks/useDialog";
+import useI18n from "@/hooks/useI18n";
+import useLocalStore from "@/hooks/useLocalStore";
+import { doctorPath } from "@/lib/doctors/seo";
+import {
+  clearShortlist,
+  comparePath,
+  maxCompare,
+  removeFromShortlist,
+  shortlistStore,
+} from "@/lib/shortlist";
+
+// Header button showing the shortlist size, opening a drawer to review the
+// saved doctors and pick up to four to compare
+export default function ShortlistDrawer() {
+  const { t, href } = useI18n();
+  const shortlist = useLocalStore(shortlistStore);
+  const [open, setOpen] = useState(false);
+  // Ids left out of the comparison; new entries are included by default
+  const [excluded, setExcluded] = useState<string[]>([]);
+
+  const compareIds = shortlist
+    .map((entry) => entry.id)
+    .filter((id) => !excluded.includes(id))
+    .slice(0, maxCompare);
+
+  // Keep focus inside and close on Escape
+  const dialogRef = useDialog<HTMLDivElement>(open, () => setOpen(false));
+
+  const toggleCompare = (id: string) => {
+    setExcluded(
+      compareIds.includes(id)
+        ? [...excluded, id]
+        : excluded.filter((excludedId) => excludedId !== id)
+    );
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        data-testid="shortlist-open"
+        className="flex items-center text-sm text-white hover:text-blue-100"
+      >
+        <HeartIcon className="h-5 w-5 mr-1" />
+        {t("shortlist.open")}
+        <span
+          data-testid="shortlist-count"
+          className="ml-1 px-1.5 rounded-full bg-white text-blue-600 text-xs font-semibold"
+        >
+          {shortlist.length}
+        </span>
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-50 bg-black/40 flex justify-end"
+          onClick={() => setOpen(false)}
+        >
+          <div
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="shortlist-title"
+            data-testid="shortlist-drawer"
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white w-full max-w-sm h-full shadow-lg p-5 overflow-y-auto text-left text-gray-800"
+          >
+            <div className="flex justify-between items-center mb-4">
+              <h2 id="shortlist-title" className="text-lg font-semibold">
+                {t("shortlist.title")}
+              </h2>
+              <button
+                type="button"
+                onClick={() => setOpen(false)}
+                aria-label={t("common.close")}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <CloseIcon className="h-6 w-6" />
+              </button>
+            </div>
+
+            {shortlist.length === 0 ? (
+              <p className="text-sm text-gray-600">{t("shortlist.empty")}</p>
+            ) : (
+              <>
+                <p className="text-xs text-gray-500 mb-3">
+                  {t("shortlist.pickToCompare", { count: maxCompare })}
+                </p>
+                <ul className="space-y-3 mb-6">
+                  {shortlist.map((entry) => (
+                    <li
+                      key={entry.id}
+                      data-testid="shortlist-item"
+                      className="flex items-start gap-3"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={compareIds.includes(entry.id)}
+                        onChange={() => toggleCompare(entry.id)}
+                        disabled={
+                          !compareIds.includes(entry.id) &&
+                          compareIds.length >= maxCompare
+                        }
+                        aria-label={t("shortlist.compareNamed", {
+                          name: entry.name,
+                        })}
+                        className="mt-1 h-4 w-4 text-blue-600 rounded"
+                      />
+                      <div className="flex-grow">
+                        <Link
+                          href={href(doctorPath(entry.id))}
+                          onClick={() => setOpen(false)}
+                          className="font-medium hover:text-blue-600"
+                        >
+                          {entry.name}
+                        </Link>
+                        <p className="text-xs text-gray-500">
+                          {entry.specialities.join(", ")}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => removeFromShortlist(entry.id)}
+                        aria-label={t("shortlist.removeNamed", {
+                          name: entry.name,
+                        })}
+                        className="text-xs text-gray-500 hover:text-red-600"
+                      >
+                        {t("shortlist.remove")}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex justify-between items-center">
+                  <button
+                    type="button"
+                    onClick={clearShortlist}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    {t("shortlist.clear")}
+                  </button>
+                  {compareIds.length >= 2 ? (
+                    <Link
+                      href={href(comparePath(compareIds))}
+                      onClick={() => setOpen(false)}
+                      data-testid="shortlist-compare"
+                      className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 text-sm"
+                    >
+                      {t("shortlist.compare", { count: compareIds.length })}
+                    </Link>
+                  ) : (
+                    <span className="text-xs text-gray-500">
+                      {t("shortlist.pickTwo")}
+                    </span>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+import Link from "next/link";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import ShortlistDrawer from "@/components/ShortlistDrawer";
+import useI18n from "@/hooks/useI18n";
+
+// Header of the pages around the search: profiles, listings and clinics
+export default function SiteHeader() {
+  const { t, href } = useI18n();
+
+  return (
+    <header className="bg-blue-600 sticky top-0 z-50 shadow-md">
+      <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+        <Link href={href("/")} className="text-white font-bold text-xl">
+          HealthCare
+        </Link>
+        <div className="flex items-center gap-4">
+          <Link
+            href={href("/")}
+            className="text-sm text-blue-100 hover:text-white"
+          >
+            {t("nav.searchAll")}
+          </Link>
+          <Link
+            href={href("/clinics")}
+            className="text-sm text-blue-100 hover:text-white"
+          >
+            {t("nav.clinics")}
+          </Link>
+          <LanguageSwitcher />
+          <ShortlistDrawer />
+        </div>
+      </div>
+    </header>
+  );
+}
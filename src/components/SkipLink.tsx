@@ -0,0 +1,17 @@
+interface SkipLinkProps {
+  // Id of the element to jump to, e.g. "#main-content"
+  href: string;
+  children: React.ReactNode;
+}
+
+// Link for keyboard users to jump past the header; hidden until focused
+export default function SkipLink({ href, children }: SkipLinkProps) {
+  return (
+    <a
+      href={href}
+      className="sr-only focus:not-sr-only focus:fixed focus:top-2 focus:left-2 focus:z-[60] focus:px-4 focus:py-2 focus:rounded-lg focus:bg-white focus:text-blue-700 focus:shadow-lg focus:outline focus:outline-2 focus:outline-blue-600"
+    >
+      {children}
+    </a>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+import { useState } from "react";
+import useI18n from "@/hooks/useI18n";
+import { clinicDate } from "@/lib/booking/availability";
+import { formatSlotDay, formatSlotTime } from "@/lib/booking/format";
+import type { DaySlots, Slot } from "@/lib/booking/types";
+
+interface SlotPickerProps {
+  days: DaySlots[];
+  selected: Slot | null;
+  onSelect: (slot: Slot) => void;
+}
+
+// Day tabs with the open slots of the chosen day underneath
+export default function SlotPicker({
+  days,
+  selected,
+  onSelect,
+}: SlotPickerProps) {
+  const { locale, t } = useI18n();
+  const [activeDate, setActiveDate] = useState(
+    selected ? clinicDate(selected.start) : days[0]?.date
+  );
+  const active = days.find((day) => day.date === activeDate) ?? days[0];
+
+  if (!active) {
+    return (
+      <p className="text-sm text-gray-600" data-testid="no-slots">
+        {t("booking.noSlots")}
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex gap-2 overflow-x-auto pb-2" role="tablist">
+        {days.map((day) => (
+          <button
+            key={day.date}
+            type="button"
+            role="tab"
+            aria-selected={day.date === active.date}
+            onClick={() => setActiveDate(day.date)}
+            className={`flex-shrink-0 px-3 py-2 rounded-lg text-sm border ${
+              day.date === active.date
+                ? "bg-blue-600 text-white border-blue-600"
+                : "bg-white text-gray-700 border-gray-300 hover:border-blue-400"
+            }`}
+          >
+            <span className="block font-medium">
+              {formatSlotDay(day.date, locale)}
+            </span>
+            <span className="block text-xs">
+              {t("counts.slots", { count: day.slots.length })}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div
+        className="grid grid-cols-3 sm:grid-cols-4 gap-2 mt-3"
+        role="tabpanel"
+      >
+        {active.slots.map((slot) => (
+          <button
+            key={slot.start}
+            type="button"
+            onClick={() => onSelect(slot)}
+            aria-pressed={selected?.start === slot.start}
+            data-testid="booking-slot"
+            className={`px-2 py-2 rounded-lg text-sm border ${
+              selected?.start === slot.start
+                ? "bg-green-600 text-white border-green-600"
+                : "bg-white text-gray-700 border-gray-300 hover:border-green-500"
+            }`}
+          >
+            {formatSlotTime(slot.start, locale)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+import useI18n from "@/hooks/useI18n";
+import { defaultDirection } from "@/lib/doctors/sort";
+import type { SortBy, SortDirection } from "@/lib/doctors/types";
+
+interface SortControlProps {
+  sortBy: SortBy | null;
+  sortDir: SortDirection | null;
+  // Relevance needs a search and distance a place to measure from
+  hasSearch: boolean;
+  hasOrigin: boolean;
+  onChange: (sortBy: SortBy | null, sortDir: SortDirection | null) => void;
+}
+
+// Sort key dropdown plus a button flipping its direction
+export default function SortControl({
+  sortBy,
+  sortDir,
+  hasSearch,
+  hasOrigin,
+  onChange,
+}: SortControlProps) {
+  const { t } = useI18n();
+  const direction = sortBy ? (sortDir ?? defaultDirection[sortBy]) : null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-700">
+      <label htmlFor="sort-select">{t("sort.label")}</label>
+      <select
+        id="sort-select"
+        value={sortBy ?? ""}
+        onChange={(e) => onChange((e.target.value as SortBy) || null, null)}
+        data-testid="sort-select"
+        className="p-1 border border-gray-300 rounded-lg bg-white"
+      >
+        <option value="">
+          {hasSearch ? t("sort.bestMatch") : t("sort.default")}
+        </option>
+        {(Object.keys(defaultDirection) as SortBy[]).map((key) => (
+          <option
+            key={key}
+            value={key}
+            disabled={
+              (key === "relevance" && !hasSearch) ||
+              (key === "distance" && !hasOrigin)
+            }
+          >
+            {t(`sort.keys.${key}`)}
+          </option>
+        ))}
+      </select>
+      {sortBy && direction && (
+        <button
+          type="button"
+          onClick={() => onChange(sortBy, direction === "asc" ? "desc" : "asc")}
+          aria-label={t("sort.direction", {
+            direction: t(`sort.directions.${sortBy}.${direction}`),
+          })}
+          data-testid="sort-direction"
+          className="flex items-center px-2 py-1 border border-gray-300 rounded-lg bg-white hover:bg-gray-50"
+        >
+          {direction === "asc" ? "↑" : "↓"}{" "}
+          {t(`sort.directions.${sortBy}.${direction}`)}
+        </button>
+      )}
+    </div>
+  );
+}
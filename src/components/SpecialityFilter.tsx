@@ -0,0 +1,154 @@
+"use client";
+import { useState } from "react";
+import { SearchIcon } from "@/components/icons";
+import useI18n from "@/hooks/useI18n";
+import type { SpecialtyMatch } from "@/lib/doctors/types";
+import type { MessageKey } from "@/lib/i18n/translate";
+
+interface SpecialityFilterProps {
+  specialties: string[];
+  selected: string[];
+  // Doctors each speciality would match under the other active filters
+  counts: Record<string, number>;
+  match: SpecialtyMatch;
+  onChange: (selected: string[]) => void;
+  onMatchChange: (match: SpecialtyMatch) => void;
+}
+
+const matchOptions: { value: SpecialtyMatch; label: MessageKey }[] = [
+  { value: "any", label: "filters.matchAny" },
+  { value: "all", label: "filters.matchAll" },
+];
+
+// Checkbox list of specialities with a live search box. Selected ones are
+// pinned to the top so they stay visible while searching.
+export default function SpecialityFilter({
+  specialties,
+  selected,
+  counts,
+  match,
+  onChange,
+  onMatchChange,
+}: SpecialityFilterProps) {
+  const { t } = useI18n();
+  const [filter, setFilter] = useState("");
+
+  const needle = filter.trim().toLowerCase();
+  const visible = specialties.filter(
+    (specialty) =>
+      selected.includes(specialty) || specialty.toLowerCase().includes(needle)
+  );
+  const ordered = [
+    ...visible.filter((specialty) => selected.includes(specialty)),
+    ...visible.filter((specialty) => !selected.includes(specialty)),
+  ];
+  const unselectedVisible = visible.filter(
+    (specialty) => !selected.includes(specialty)
+  );
+
+  const toggle = (specialty: string) => {
+    onChange(
+      selected.includes(specialty)
+        ? selected.filter((s) => s !== specialty)
+        : [...selected, specialty]
+    );
+  };
+
+  return (
+    <fieldset className="mb-6 text-black">
+      <legend
+        className="font-semibold mb-3 text-gray-700"
+        data-testid="filter-header-speciality"
+      >
+        {t("filters.speciality")}
+      </legend>
+      <div className="relative mb-3">
+        <input
+          type="text"
+          placeholder={t("filters.searchSpecialities")}
+          aria-label={t("filters.searchSpecialities")}
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          data-testid="filter-specialty-search"
+          className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <SearchIcon className="h-5 w-5 absolute right-2 top-2 text-gray-400" />
+      </div>
+      <div
+        className="flex mb-3 text-xs border border-gray-300 rounded-lg overflow-hidden"
+        role="group"
+        aria-label={t("filters.matchSpecialities")}
+      >
+        {matchOptions.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onMatchChange(option.value)}
+            aria-pressed={match === option.value}
+            data-testid={`filter-specialty-match-${option.value}`}
+            className={`flex-1 py-1 ${
+              match === option.value
+                ? "bg-blue-600 text-white"
+                : "bg-white text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {t(option.label)}
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs mb-2">
+        <button
+          type="button"
+          onClick={() => onChange([...selected, ...unselectedVisible])}
+          disabled={unselectedVisible.length === 0}
+          data-testid="filter-specialty-select-visible"
+          className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+        >
+          {needle ? t("filters.selectVisible") : t("filters.selectAll")}
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          disabled={selected.length === 0}
+          data-testid="filter-specialty-clear"
+          className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+        >
+          {t("common.clear")}
+        </button>
+      </div>
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {ordered.map((specialty) => {
+          const formattedId = specialty
+            .replace(/\s+/g, "-")
+            .replace(/\/+/g, "-");
+          return (
+            <label
+              key={specialty}
+              className="flex items-center space-x-2 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(specialty)}
+                onChange={() => toggle(specialty)}
+                data-testid={`filter-specialty-${formattedId}`}
+                className="h-4 w-4 text-blue-600 rounded"
+              />
+              <span className="text-sm flex-grow">{specialty}</span>
+              <span
+                className="text-xs text-gray-500"
+                data-testid={`filter-specialty-count-${formattedId}`}
+              >
+                {counts[specialty] ?? 0}
+              </span>
+            </label>
+          );
+        })}
+        {ordered.length === 0 && (
+          <p className="text-sm text-gray-500">
+            {t("filters.noSpecialities", { filter })}
+          </p>
+        )}
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,127 @@
+import Link from "next/link";
+import DoctorCard from "@/components/DoctorCard";
+import type { AvailabilitySummary } from "@/lib/booking/types";
+import { specialityPath } from "@/lib/doctors/seo";
+import type { Doctor } from "@/lib/doctors/types";
+import type { Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+import type { RatingSummary } from "@/lib/reviews/types";
+import { encodeQuery, emptyQuery } from "@/lib/doctors/url-state";
+
+interface SpecialityListingProps {
+  speciality: string;
+  city?: string;
+  doctors: Doctor[];
+  availability: Record<string, AvailabilitySummary>;
+  ratings: Record<string, RatingSummary>;
+  // Other cities this speciality is offered in, for internal links
+  cities: string[];
+  locale: Locale;
+}
+
+// Server-rendered list of doctors for one speciality, optionally in one city
+export default function SpecialityListing({
+  speciality,
+  city,
+  doctors,
+  availability,
+  ratings,
+  cities,
+  locale,
+}: SpecialityListingProps) {
+  const { t, href } = getI18n(locale);
+  const finderUrl = `${href("/")}?${encodeQuery({ ...emptyQuery, specialties: [speciality] })}`;
+
+  return (
+    <>
+      <nav
+        aria-label={t("common.breadcrumb")}
+        className="text-sm text-gray-500 mb-4"
+      >
+        <ol className="flex flex-wrap gap-1">
+          <li>
+            <Link href={href("/")} className="hover:text-blue-600">
+              {t("common.doctors")}
+            </Link>
+            <span className="mx-1">/</span>
+          </li>
+          <li>
+            {city ? (
+              <Link
+                href={href(specialityPath(speciality))}
+                className="hover:text-blue-600"
+              >
+                {speciality}
+              </Link>
+            ) : (
+              <span aria-current="page">{speciality}</span>
+            )}
+          </li>
+          {city && (
+            <li>
+              <span className="mx-1">/</span>
+              <span aria-current="page">{city}</span>
+            </li>
+          )}
+        </ol>
+      </nav>
+
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-2 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">
+            {city
+              ? t("listing.headingInCity", { speciality, city })
+              : t("listing.heading", { speciality })}
+          </h1>
+          <p className="text-gray-600">
+            {t("listing.available", {
+              doctors: t("counts.doctors", { count: doctors.length }),
+            })}
+          </p>
+        </div>
+        <Link
+          href={finderUrl}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          {t("listing.filterAndSort")}
+        </Link>
+      </div>
+
+      {cities.length > 0 && (
+        <div className="mb-6">
+          <h2 className="font-semibold mb-2 text-gray-700">
+            {t("listing.byCity", { speciality })}
+          </h2>
+          <ul className="flex flex-wrap gap-2">
+            {cities.map((name) => (
+              <li key={name}>
+                <Link
+                  href={href(specialityPath(speciality, name))}
+                  aria-current={name === city ? "page" : undefined}
+                  className={`px-3 py-1 rounded-full text-sm ${
+                    name === city
+                      ? "bg-blue-600 text-white"
+                      : "bg-white text-blue-700 shadow-sm hover:bg-blue-50"
+                  }`}
+                >
+                  {name}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {doctors.map((doctor) => (
+          <DoctorCard
+            key={doctor.id}
+            doctor={doctor}
+            availability={availability[doctor.id]}
+            rating={ratings[doctor.id]}
+          />
+        ))}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,178 @@
+// Outline icons shared across the app (24px grid, drawn in the current text
+// colour). Size and colour come from `className`; they're decorative, so
+// screen readers skip them and the surrounding control carries the label.
+
+interface IconProps {
+  className?: string;
+}
+
+interface OutlineIconProps extends IconProps {
+  paths: string[];
+  filled?: boolean;
+}
+
+function OutlineIcon({ className, paths, filled }: OutlineIconProps) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      className={className}
+      fill={filled ? "currentColor" : "none"}
+      viewBox="0 0 24 24"
+      stroke="currentColor"
+      aria-hidden="true"
+    >
+      {paths.map((d) => (
+        <path
+          key={d}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d={d}
+        />
+      ))}
+    </svg>
+  );
+}
+
+export function SearchIcon({ className }: IconProps) {
+  return (
+    <OutlineIcon
+      className={className}
+      paths={["M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"]}
+    />
+  );
+}
+
+export function CloseIcon({ className }: IconProps) {
+  return <OutlineIcon className={className} paths={["M6 18L18 6M6 6l12 12"]} />;
+}
+
+export function FiltersIcon({ className }: IconProps) {
+  return (
+    <OutlineIcon
+      className={className}
+      paths={[
+        "M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4",
+      ]}
+    />
+  );
+}
+
+export function VideoIcon({ className }: IconProps) {
+  return (
+    <OutlineIcon
+      className={className}
+      paths={[
+        "M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z",
+      ]}
+    />
+  );
+}
+
+// In-clinic consultation
+export function ClinicIcon({ className }: IconProps) {
+  return (
+    <OutlineIcon
+      className={className}
+      paths={[
+        "M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4",
+      ]}
+    />
+  );
+}
+
+export function HomeIcon({ className }: IconProps) {
+  return (
+    <OutlineIcon
+      className={className}
+      paths={[
+        "M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6",
+      ]}
+    />
+  );
+}
+
+export function MapPinIcon({ className }: IconProps) {
+  return (
+    <OutlineIcon
+      className={className}
+      paths={[
+        "M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z",
+        "M15 11a3 3 0 11-6 0 3 3 0 016 0z",
+      ]}
+    />
+  );
+}
+
+export function MapIcon({ className }: IconProps) {
+  return (
+    <OutlineIcon
+      className={className}
+      paths={[
+        "M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7",
+      ]}
+    />
+  );
+}
+
+export function ClockIcon({ className }: IconProps) {
+  return (
+    <OutlineIcon
+      className={className}
+      paths={["M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"]}
+    />
+  );
+}
+
+export function MoneyIcon({ className }: IconProps) {
+  return (
+    <OutlineIcon
+      className={className}
+      paths={[
+        "M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z",
+      ]}
+    />
+  );
+}
+
+// Outlined, or solid for a doctor who's on the shortlist
+export function HeartIcon({
+  className,
+  filled,
+}: IconProps & { filled?: boolean }) {
+  return (
+    <OutlineIcon
+      className={className}
+      filled={filled}
+      paths={[
+        "M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z",
+      ]}
+    />
+  );
+}
+
+export function StarIcon({
+  className,
+  filled,
+}: IconProps & { filled?: boolean }) {
+  return (
+    <OutlineIcon
+      className={className}
+      filled={filled}
+      paths={[
+        "M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z",
+      ]}
+    />
+  );
+}
+
+export function SadFaceIcon({ className }: IconProps) {
+  return (
+    <OutlineIcon
+      className={className}
+      paths={[
+        "M9.172 16.172a4 4 0 015.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z",
+      ]}
+    />
+  );
+}
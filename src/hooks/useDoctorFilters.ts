@@ -0,0 +1,145 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import useI18n from "@/hooks/useI18n";
+import { doctorPath } from "@/lib/doctors/seo";
+import type { DoctorQuery } from "@/lib/doctors/types";
+import {
+  decodeQuery,
+  emptyQuery,
+  encodeQuery,
+  isSameQuery,
+} from "@/lib/doctors/url-state";
+import { rememberSearch } from "@/lib/recent";
+import type { Suggestion } from "@/lib/search/suggest";
+
+export type HistoryMode = "push" | "replace";
+
+export interface DoctorFiltersOptions {
+  // Filters to start from and to go back to on "Clear All", e.g. one
+  // speciality for a page that only lists dentists
+  preset?: Partial<DoctorQuery>;
+  // Keep the filters in the page URL so views can be shared and stepped
+  // through with back/forward
+  syncUrl?: boolean;
+  // Known speciality names, used to read combined names from old URLs
+  specialties?: string[];
+}
+
+export interface DoctorFilters {
+  query: DoctorQuery;
+  // Apply changes on top of the current filters. Typing should replace the
+  // current history entry, committed changes push a new one.
+  update: (changes: Partial<DoctorQuery>, mode?: HistoryMode) => void;
+  setSearch: (search: string) => void;
+  // Apply the filter matching a picked search suggestion
+  selectSuggestion: (suggestion: Suggestion) => void;
+  reset: () => void;
+}
+
+// Filter state for a doctor list, optionally mirrored in the URL
+export default function useDoctorFilters({
+  preset,
+  syncUrl = false,
+  specialties,
+}: DoctorFiltersOptions = {}): DoctorFilters {
+  const router = useRouter();
+  const { href } = useI18n();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const baseQuery: DoctorQuery = { ...emptyQuery, ...preset };
+  // The URL overrides the preset only for what it sets. The sort direction
+  // is read along with the sort key.
+  const readUrl = (params: URLSearchParams): DoctorQuery => {
+    const decoded = decodeQuery(params, specialties);
+    const fromUrl = (Object.keys(decoded) as (keyof DoctorQuery)[]).filter(
+      (key) => params.has(key === "sortDir" ? "sortBy" : key)
+    );
+    return {
+      ...baseQuery,
+      ...Object.fromEntries(fromUrl.map((key) => [key, decoded[key]])),
+    };
+  };
+
+  const [query, setQuery] = useState<DoctorQuery>(() =>
+    syncUrl ? readUrl(searchParams) : baseQuery
+  );
+
+  // Query strings we've written but the router hasn't reported back yet
+  const pendingUrls = useRef<string[]>([]);
+
+  // Apply URL params when the URL changes from outside (back/forward, links)
+  const readUrlRef = useRef(readUrl);
+  readUrlRef.current = readUrl;
+  useEffect(() => {
+    if (!syncUrl) return;
+
+    const current = searchParams.toString();
+    const pending = pendingUrls.current.indexOf(current);
+    if (pending !== -1) {
+      // Our own write, and anything written before it is stale
+      pendingUrls.current = pendingUrls.current.slice(pending + 1);
+      return;
+    }
+
+    const next = readUrlRef.current(new URLSearchParams(current));
+    setQuery((prev) => (isSameQuery(prev, next) ? prev : next));
+  }, [searchParams, syncUrl]);
+
+  const replaceQuery = (next: DoctorQuery, mode: HistoryMode) => {
+    // Any change other than moving between pages starts from the first page
+    if (next.page === query.page) {
+      next = { ...next, page: 1 };
+    }
+    setQuery(next);
+    if (!syncUrl) return;
+
+    const params = encodeQuery(next).toString();
+    if (params === searchParams.toString()) return;
+
+    pendingUrls.current.push(params);
+    router[mode](params ? `${pathname}?${params}` : pathname, {
+      scroll: false,
+    });
+  };
+
+  const update = (changes: Partial<DoctorQuery>, mode: HistoryMode = "push") =>
+    replaceQuery({ ...query, ...changes }, mode);
+
+  const selectSuggestion = (suggestion: Suggestion) => {
+    rememberSearch(suggestion.label);
+    switch (suggestion.type) {
+      case "doctor":
+        router.push(href(doctorPath(suggestion.value)));
+        break;
+      case "speciality":
+        update({
+          search: "",
+          specialties: query.specialties.includes(suggestion.value)
+            ? query.specialties
+            : [...query.specialties, suggestion.value],
+        });
+        break;
+      case "clinic":
+        update({
+          search: "",
+          clinics: query.clinics.includes(suggestion.value)
+            ? query.clinics
+            : [...query.clinics, suggestion.value],
+        });
+        break;
+      default:
+        // Localities are matched by the search index
+        update({ search: suggestion.value });
+    }
+  };
+
+  return {
+    query,
+    update,
+    setSearch: (search) => update({ search }, "replace"),
+    selectSuggestion,
+    reset: () => replaceQuery(baseQuery, "push"),
+  };
+}
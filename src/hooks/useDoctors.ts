@@ -0,0 +1,62 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import type { DoctorQuery, DoctorsResponse } from "@/lib/doctors/types";
+import { encodeQuery } from "@/lib/doctors/url-state";
+import type { MessageKey } from "@/lib/i18n/translate";
+
+export interface DoctorsState {
+  // Latest results; kept while the next page of results loads
+  data: DoctorsResponse | null;
+  loading: boolean;
+  // Message key for the error to show
+  error: MessageKey | null;
+}
+
+// Doctors matching `query`, fetched from our API whenever it changes.
+// `initialData` is what the server already rendered for the first query.
+export default function useDoctors(
+  query: DoctorQuery,
+  initialData?: DoctorsResponse
+): DoctorsState {
+  const [data, setData] = useState<DoctorsResponse | null>(initialData ?? null);
+  const [loading, setLoading] = useState(!initialData);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  const hasInitialData = useRef(!!initialData);
+  useEffect(() => {
+    if (hasInitialData.current) {
+      hasInitialData.current = false;
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const fetchDoctors = async () => {
+      try {
+        const params = encodeQuery(query);
+        const response = await fetch(`/api/doctors?${params}`, {
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch doctors");
+        }
+
+        setData(await response.json());
+        setError(null);
+        setLoading(false);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError("results.failed");
+        setLoading(false);
+        console.error(err);
+      }
+    };
+
+    fetchDoctors();
+
+    return () => controller.abort();
+  }, [query]);
+
+  return { data, loading, error };
+}
@@ -0,0 +1,12 @@
+"use client";
+import { createContext, useContext } from "react";
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+
+// Language of the page, provided by the [locale] layout
+export const LocaleContext = createContext<Locale>(defaultLocale);
+
+// Messages and formatters in the page's language
+export default function useI18n() {
+  return getI18n(useContext(LocaleContext));
+}
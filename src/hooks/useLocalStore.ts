@@ -0,0 +1,9 @@
+"use client";
+import { useSyncExternalStore } from "react";
+import type { LocalStore } from "@/lib/store/local-store";
+
+// Current value of a local store; the server render and hydration see the
+// store's initial value, then the stored one
+export default function useLocalStore<T>(store: LocalStore<T>): T {
+  return useSyncExternalStore(store.subscribe, store.get, () => store.initial);
+}
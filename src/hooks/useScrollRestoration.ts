@@ -0,0 +1,37 @@
+"use client";
+import { useEffect, useRef } from "react";
+
+// Remember how far a page was scrolled when leaving it (e.g. opening a
+// profile) and go back there when it's shown again with the same key.
+// `ready` should turn true once the content is rendered at full height.
+export default function useScrollRestoration(key: string, ready: boolean) {
+  const storageKey = `scroll:${key}`;
+  const restored = useRef(false);
+  const latestKey = useRef(storageKey);
+
+  useEffect(() => {
+    if (!ready || restored.current) return;
+    restored.current = true;
+
+    const saved = sessionStorage.getItem(storageKey);
+    if (saved !== null) {
+      sessionStorage.removeItem(storageKey);
+      window.scrollTo(0, Number(saved));
+    }
+  }, [ready, storageKey]);
+
+  useEffect(() => {
+    latestKey.current = storageKey;
+  }, [storageKey]);
+
+  // Save on the way out, whether to another route or another site
+  useEffect(() => {
+    const save = () =>
+      sessionStorage.setItem(latestKey.current, String(window.scrollY));
+    window.addEventListener("pagehide", save);
+    return () => {
+      window.removeEventListener("pagehide", save);
+      save();
+    };
+  }, []);
+}
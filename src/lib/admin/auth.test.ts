@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { isAdminAuthorized, isSameSiteChange } from "./auth";
+
+const basic = (credentials: string) => `Basic ${btoa(credentials)}`;
+
+describe("isAdminAuthorized", () => {
+  it("accepts the token as the password with any username", () => {
+    expect(isAdminAuthorized(basic("admin:s3cret"), "s3cret")).toBe(true);
+    expect(isAdminAuthorized(basic(":s3cret"), "s3cret")).toBe(true);
+  });
+
+  it("rejects a wrong, missing or malformed password", () => {
+    expect(isAdminAuthorized(basic("admin:guess"), "s3cret")).toBe(false);
+    expect(isAdminAuthorized(basic("s3cret"), "s3cret")).toBe(false);
+    expect(isAdminAuthorized("Bearer s3cret", "s3cret")).toBe(false);
+    expect(isAdminAuthorized("Basic %%%", "s3cret")).toBe(false);
+    expect(isAdminAuthorized(null, "s3cret")).toBe(false);
+  });
+
+  it("lets nobody in without a token", () => {
+    expect(isAdminAuthorized(basic("admin:"), "")).toBe(false);
+    expect(isAdminAuthorized(basic("admin:"), undefined)).toBe(false);
+  });
+});
+
+describe("isSameSiteChange", () => {
+  const change = (headers: Record<string, string>, method = "POST") => ({
+    method,
+    headers: new Headers({ host: "clinic.example", ...headers }),
+  });
+  const json = { "content-type": "application/json; charset=utf-8" };
+
+  it("accepts JSON from our own pages and from non-browser clients", () => {
+    expect(
+      isSameSiteChange(change({ ...json, "sec-fetch-site": "same-origin" }))
+    ).toBe(true);
+    expect(
+      isSameSiteChange(change({ ...json, origin: "https://clinic.example" }))
+    ).toBe(true);
+    expect(isSameSiteChange(change(json, "DELETE"))).toBe(true);
+    expect(isSameSiteChange(change({}, "GET"))).toBe(true);
+  });
+
+  it("rejects other content types and other sites", () => {
+    expect(isSameSiteChange(change({ "content-type": "text/plain" }))).toBe(
+      false
+    );
+    expect(isSameSiteChange(change({}, "DELETE"))).toBe(false);
+    expect(
+      isSameSiteChange(change({ ...json, "sec-fetch-site": "cross-site" }))
+    ).toBe(false);
+    expect(
+      isSameSiteChange(change({ ...json, origin: "https://evil.example" }))
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+// The admin pages and API sit behind HTTP Basic auth: any username, with the
+// ADMIN_TOKEN environment variable as the password. Browsers ask once and
+// resend it with the admin forms' API calls. Without a token nobody gets in.
+export function isAdminAuthorized(
+  authorization: string | null,
+  token = process.env.ADMIN_TOKEN
+): boolean {
+  if (!token || !authorization?.startsWith("Basic ")) return false;
+
+  let credentials: string;
+  try {
+    credentials = atob(authorization.slice("Basic ".length));
+  } catch {
+    return false;
+  }
+  const separator = credentials.indexOf(":");
+  return separator >= 0 && sameText(credentials.slice(separator + 1), token);
+}
+
+// Compares every character so the time taken doesn't hint at the token
+function sameText(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+const readOnlyMethods = ["GET", "HEAD", "OPTIONS"];
+
+// Browsers resend Basic credentials on requests from other sites, and a
+// cross-site form can POST text/plain without a CORS preflight. Changes are
+// only accepted as JSON from our own pages. Clients that send neither
+// Sec-Fetch-Site nor Origin aren't browsers (curl, scripts) and can't be
+// tricked into sending the password.
+export function isSameSiteChange(request: {
+  method: string;
+  headers: Headers;
+}): boolean {
+  if (readOnlyMethods.includes(request.method)) return true;
+
+  const contentType = request.headers.get("content-type") ?? "";
+  if (contentType.split(";")[0].trim().toLowerCase() !== "application/json") {
+    return false;
+  }
+
+  const fetchSite = request.headers.get("sec-fetch-site");
+  if (fetchSite) return fetchSite === "same-origin";
+
+  const origin = request.headers.get("origin");
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === request.headers.get("host");
+  } catch {
+    return false;
+  }
+}
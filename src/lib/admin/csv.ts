@@ -0,0 +1,96 @@
+// Thrown when the file as a whole can't be read
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFileError";
+  }
+}
+
+// CSV columns, in the order of the template. Lists use ";" between items
+// because speciality names can contain commas.
+export const csvColumns = [
+  "id",
+  "name",
+  "specialities",
+  "fees",
+  "experience",
+  "languages",
+  "clinic_name",
+  "address_line1",
+  "locality",
+  "city",
+  "location",
+  "logo_url",
+  "photo",
+  "doctor_introduction",
+  "video_consult",
+  "in_clinic",
+] as const;
+
+export type CsvColumn = (typeof csvColumns)[number];
+
+// Imported records keep their ids so a file can be imported again to update
+export const requiredColumns: CsvColumn[] = [
+  "id",
+  "name",
+  "specialities",
+  "fees",
+  "experience",
+];
+
+interface CsvRecord {
+  line: number;
+  cells: string[];
+}
+
+// RFC 4180: quoted cells may hold commas, newlines and "" for a quote
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim() !== "")) {
+      records.push({ line: start, cells });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new ImportFileError(`Unclosed quote in the record on line ${start}`);
+  }
+  endRecord();
+
+  return records;
+}
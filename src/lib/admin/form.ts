@@ -0,0 +1,117 @@
+import { formatExperience, formatFees } from "@/lib/doctors/format";
+import type { Doctor, RawDoctor } from "@/lib/doctors/types";
+
+// Editable fields of a doctor, as the admin form holds them
+export interface DoctorFormValues {
+  id: string;
+  name: string;
+  photo: string;
+  introduction: string;
+  // One per line, since names like "Ear, Nose & Throat" contain commas
+  specialities: string;
+  fees: string;
+  currency: string;
+  experience: string;
+  // Comma separated
+  languages: string;
+  clinicName: string;
+  addressLine1: string;
+  locality: string;
+  city: string;
+  // "lng,lat" or "lat,lng"
+  location: string;
+  logoUrl: string;
+  videoConsult: boolean;
+  inClinic: boolean;
+}
+
+// Currencies the fee parser recognises
+export const currencies = ["INR", "USD", "EUR", "GBP"];
+
+export const emptyFormValues: DoctorFormValues = {
+  id: "",
+  name: "",
+  photo: "",
+  introduction: "",
+  specialities: "",
+  fees: "",
+  currency: "INR",
+  experience: "",
+  languages: "",
+  clinicName: "",
+  addressLine1: "",
+  locality: "",
+  city: "",
+  location: "",
+  logoUrl: "",
+  videoConsult: false,
+  inClinic: true,
+};
+
+export function formValues(doctor: Doctor): DoctorFormValues {
+  const { address } = doctor.clinic;
+  return {
+    id: doctor.id,
+    name: doctor.name,
+    photo: doctor.photo ?? "",
+    introduction: doctor.doctor_introduction ?? "",
+    specialities: doctor.specialities.map((spec) => spec.name).join("\n"),
+    fees: String(doctor.fees.amount),
+    currency: doctor.fees.currency,
+    experience: String(doctor.experienceYears),
+    languages: doctor.languages.join(", "),
+    clinicName: doctor.clinic.name,
+    addressLine1: address.address_line1,
+    locality: address.locality,
+    city: address.city,
+    location: address.location,
+    logoUrl: address.logo_url ?? "",
+    videoConsult: doctor.video_consult,
+    inClinic: doctor.in_clinic,
+  };
+}
+
+export function splitList(value: string, separator: RegExp): string[] {
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Numbers are written the way the source roster writes them ("₹ 500",
+// "12 Years of experience"); anything else is kept so validation can
+// report it
+export function formRecord(values: DoctorFormValues): RawDoctor {
+  const amount = Number(values.fees);
+  const years = Number(values.experience);
+  return {
+    id: values.id.trim(),
+    name: values.name.trim(),
+    photo: values.photo.trim() || undefined,
+    doctor_introduction: values.introduction.trim() || undefined,
+    specialities: splitList(values.specialities, /\n/).map((name) => ({
+      name,
+    })),
+    fees:
+      values.fees.trim() && amount >= 0
+        ? formatFees({ amount, currency: values.currency })
+        : values.fees,
+    experience:
+      values.experience.trim() && years >= 0
+        ? formatExperience(years)
+        : values.experience,
+    languages: splitList(values.languages, /,/),
+    clinic: {
+      name: values.clinicName.trim(),
+      address: {
+        locality: values.locality.trim(),
+        city: values.city.trim(),
+        address_line1: values.addressLine1.trim(),
+        location: values.location.trim(),
+        logo_url: values.logoUrl.trim() || undefined,
+      },
+    },
+    video_consult: values.videoConsult,
+    in_clinic: values.inClinic,
+  };
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { ImportFileError, parseCsv } from "./csv";
+import { parseImport } from "./import";
+
+const header =
+  "id,name,specialities,fees,experience,languages,clinic_name,city,video_consult,in_clinic";
+
+describe("parseCsv", () => {
+  it("reads quoted cells and numbers records by their first line", () => {
+    expect(
+      parseCsv('a,b\r\n"x, ""y""","two\nlines"\n\n3,4\n').map(
+        ({ line, cells }) => [line, cells]
+      )
+    ).toEqual([
+      [1, ["a", "b"]],
+      [2, ['x, "y"', "two\nlines"]],
+      [5, ["3", "4"]],
+    ]);
+  });
+
+  it("rejects an unclosed quote", () => {
+    expect(() => parseCsv('a,"b\n')).toThrow(ImportFileError);
+  });
+});
+
+describe("parseImport", () => {
+  it("turns CSV rows into roster records", () => {
+    const { records, errors } = parseImport(
+      [
+        header,
+        '7,Dr. Asha Rao,"Dentist; Ear, Nose & Throat",500,8,English;Kannada,Smile Care,Bangalore,yes,no',
+      ].join("\n"),
+      "csv"
+    );
+
+    expect(errors).toEqual([]);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      id: "7",
+      name: "Dr. Asha Rao",
+      specialities: [{ name: "Dentist" }, { name: "Ear, Nose & Throat" }],
+      fees: "500",
+      languages: ["English", "Kannada"],
+      clinic: { name: "Smile Care", address: { city: "Bangalore" } },
+      video_consult: true,
+      in_clinic: false,
+    });
+  });
+
+  it("lists the problems of every invalid row by line number", () => {
+    const { records, errors } = parseImport(
+      [
+        header,
+        "1,Dr. One,Dentist,500,5,English,A,Pune,yes,yes",
+        "2,Dr. Two,,500,5,English,B,Pune,maybe,yes",
+        "1,Dr. Three,Dentist,500,5,English,C,Pune,no,yes",
+      ].join("\n"),
+      "csv"
+    );
+
+    expect(records.map((record) => record.id)).toEqual(["1"]);
+    expect(errors).toEqual([
+      {
+        row: 3,
+        id: "2",
+        issues: [
+          'video_consult "maybe" is not yes or no',
+          "add at least one speciality",
+        ],
+      },
+      { row: 4, id: "1", issues: ["id 1 is also used by row 2"] },
+    ]);
+  });
+
+  it("rejects negative or signed fees and experience", () => {
+    const { records, errors } = parseImport(
+      [
+        header,
+        "1,Dr. One,Dentist,-500,5,English,A,Pune,yes,yes",
+        "2,Dr. Two,Dentist,₹ 500,-3,English,B,Pune,yes,yes",
+        "3,Dr. Three,Dentist,+500,+3,English,C,Pune,yes,yes",
+      ].join("\n"),
+      "csv"
+    );
+
+    expect(records).toEqual([]);
+    expect(errors.map(({ row, issues }) => ({ row, issues }))).toEqual([
+      { row: 2, issues: ['fees "-500" is not an amount'] },
+      { row: 3, issues: ['experience "-3" is not a number of years'] },
+      {
+        row: 4,
+        issues: [
+          'fees "+500" is not an amount',
+          'experience "+3" is not a number of years',
+        ],
+      },
+    ]);
+  });
+
+  it("rejects unknown and missing columns", () => {
+    expect(() => parseImport("name,fees,rating\n", "csv")).toThrow(
+      "Unknown columns: rating"
+    );
+    expect(() => parseImport("id,name,fees\n1,Dr. A,500\n", "csv")).toThrow(
+      "Missing columns: specialities"
+    );
+  });
+
+  it("numbers JSON records by position", () => {
+    const { errors } = parseImport(
+      JSON.stringify([
+        {
+          id: "1",
+          name: "Dr. A",
+          specialities: [{ name: "Dentist" }],
+          fees: "₹ 500",
+          experience: "5 Years of experience",
+        },
+        { id: "2", specialities: [{ name: "Dentist" }], fees: "₹ 500" },
+      ]),
+      "json"
+    );
+
+    expect(errors.map(({ row, id }) => ({ row, id }))).toEqual([
+      { row: 2, id: "2" },
+    ]);
+    expect(() => parseImport("{}", "json")).toThrow(ImportFileError);
+  });
+});
@@ -0,0 +1,144 @@
+import { recordIssues } from "@/lib/doctors/roster-store";
+import type { RawDoctor } from "@/lib/doctors/types";
+import {
+  csvColumns,
+  ImportFileError,
+  parseCsv,
+  requiredColumns,
+  type CsvColumn,
+} from "./csv";
+import { splitList } from "./form";
+
+export type ImportFormat = "csv" | "json";
+
+// A record that can't be imported, numbered the way the file shows it:
+// CSV line numbers (the header is line 1), or 1-based positions in a JSON list
+export interface RowError {
+  row: number;
+  id: string | null;
+  issues: string[];
+}
+
+export interface ParsedImport {
+  records: RawDoctor[];
+  errors: RowError[];
+}
+
+// One record read from the file, with problems found while reading it
+interface ImportRow {
+  row: number;
+  record: unknown;
+  issues: string[];
+}
+
+function parseFlag(value: string, column: string, issues: string[]) {
+  const flag = value.trim().toLowerCase();
+  if (["true", "yes", "y", "1"].includes(flag)) return true;
+  if (["false", "no", "n", "0", ""].includes(flag)) return false;
+  issues.push(`${column} "${value}" is not yes or no`);
+  return false;
+}
+
+function csvRecords(text: string): ImportRow[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) throw new ImportFileError("The file is empty");
+
+  const columns = header.cells.map((name) => name.trim().toLowerCase());
+  const unknown = columns.filter(
+    (name) => !csvColumns.includes(name as CsvColumn)
+  );
+  if (unknown.length > 0) {
+    throw new ImportFileError(`Unknown columns: ${unknown.join(", ")}`);
+  }
+  const missing = requiredColumns.filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    throw new ImportFileError(`Missing columns: ${missing.join(", ")}`);
+  }
+
+  return rows.map(({ line, cells }) => {
+    const issues: string[] = [];
+    if (cells.length > columns.length) {
+      issues.push(
+        `has ${cells.length} cells but the header has ${columns.length}`
+      );
+    }
+    const cell = (name: CsvColumn) =>
+      (cells[columns.indexOf(name)] ?? "").trim();
+
+    const record: RawDoctor = {
+      id: cell("id"),
+      name: cell("name"),
+      photo: cell("photo") || undefined,
+      doctor_introduction: cell("doctor_introduction") || undefined,
+      specialities: splitList(cell("specialities"), /;/).map((name) => ({
+        name,
+      })),
+      fees: cell("fees"),
+      experience: cell("experience"),
+      languages: splitList(cell("languages"), /;/),
+      clinic: {
+        name: cell("clinic_name"),
+        address: {
+          locality: cell("locality"),
+          city: cell("city"),
+          address_line1: cell("address_line1"),
+          location: cell("location"),
+          logo_url: cell("logo_url") || undefined,
+        },
+      },
+      video_consult: parseFlag(cell("video_consult"), "video_consult", issues),
+      in_clinic: parseFlag(cell("in_clinic"), "in_clinic", issues),
+    };
+    return { row: line, record, issues };
+  });
+}
+
+function jsonRecords(text: string): ImportRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportFileError("The file is not valid JSON");
+  }
+  if (!Array.isArray(data)) {
+    throw new ImportFileError("The file should hold a list of doctors");
+  }
+  return data.map((record, index) => ({ row: index + 1, record, issues: [] }));
+}
+
+// Read every record in an import file and check each one the way the admin
+// form does, so the whole file can be fixed in one go
+export function parseImport(text: string, format: ImportFormat): ParsedImport {
+  const rows = format === "csv" ? csvRecords(text) : jsonRecords(text);
+  if (rows.length === 0) throw new ImportFileError("The file has no doctors");
+
+  const records: RawDoctor[] = [];
+  const errors: RowError[] = [];
+  const seen = new Map<string, number>();
+
+  rows.forEach(({ row, record, issues }) => {
+    issues.push(...recordIssues(record));
+
+    const rawId = (record as { id?: unknown } | null)?.id;
+    const id =
+      typeof rawId === "string" || typeof rawId === "number"
+        ? String(rawId).trim() || null
+        : null;
+    if (id !== null) {
+      const first = seen.get(id);
+      if (first !== undefined) {
+        issues.push(`id ${id} is also used by row ${first}`);
+      } else {
+        seen.set(id, row);
+      }
+    }
+
+    if (issues.length > 0) {
+      errors.push({ row, id, issues });
+    } else {
+      records.push({ ...(record as RawDoctor), id: id as string });
+    }
+  });
+
+  return { records, errors };
+}
@@ -0,0 +1,156 @@
+import type { ConsultType, Doctor } from "@/lib/doctors/types";
+import type { AvailabilitySummary, Booking, DaySlots, Slot } from "./types";
+
+// All clinics are in India, slots are generated and shown in IST
+export const clinicTimeZone = "Asia/Kolkata";
+const clinicOffsetMinutes = 330;
+
+const minute = 60 * 1000;
+const day = 24 * 60 * minute;
+
+// How many days ahead patients can see and book slots
+export const bookingWindowDays = 7;
+
+// A recurring block of slots, times in minutes after midnight clinic time
+interface Session {
+  weekdays: number[]; // 0 = Sunday
+  from: number;
+  to: number;
+  slotMinutes: number;
+}
+
+const weekdays = [1, 2, 3, 4, 5];
+const everyDayButSunday = [1, 2, 3, 4, 5, 6];
+const everyDay = [0, 1, 2, 3, 4, 5, 6];
+
+// Small stable hash so each doctor gets the same schedule on every request
+function hash(value: string): number {
+  let result = 0;
+  for (const char of value) {
+    result = (result * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return result;
+}
+
+// Weekly timetable for one consult mode. In-clinic visits run in longer
+// morning or evening sessions, video consults in shorter slots around them.
+export function weeklySchedule(doctor: Doctor, mode: ConsultType): Session[] {
+  const offered = mode === "video" ? doctor.video_consult : doctor.in_clinic;
+  if (!offered) return [];
+
+  const morningClinic = hash(doctor.id) % 2 === 0;
+
+  if (mode === "clinic") {
+    return morningClinic
+      ? [{ weekdays: everyDayButSunday, from: 600, to: 780, slotMinutes: 20 }]
+      : [{ weekdays, from: 1020, to: 1200, slotMinutes: 20 }];
+  }
+
+  return morningClinic
+    ? [{ weekdays: everyDay, from: 1140, to: 1260, slotMinutes: 15 }]
+    : [{ weekdays, from: 780, to: 900, slotMinutes: 15 }];
+}
+
+// Midnight (clinic time) of the day containing `time`, as a UTC timestamp
+function clinicDayStart(time: number): number {
+  const local = time + clinicOffsetMinutes * minute;
+  return local - (local % day) - clinicOffsetMinutes * minute;
+}
+
+export function clinicDate(time: number | string): string {
+  const local = new Date(
+    new Date(time).getTime() + clinicOffsetMinutes * minute
+  );
+  return local.toISOString().slice(0, 10);
+}
+
+function isBooked(slot: Slot, bookings: Booking[]): boolean {
+  return bookings.some((booking) => booking.start === slot.start);
+}
+
+// Open slots for the next `days` days, grouped per day. Past and booked slots
+// are left out. `bookings` should be this doctor's bookings.
+export function listSlots(
+  doctor: Doctor,
+  mode: ConsultType,
+  bookings: Booking[],
+  now = Date.now(),
+  days = bookingWindowDays
+): DaySlots[] {
+  const sessions = weeklySchedule(doctor, mode);
+  const result: DaySlots[] = [];
+  const firstDay = clinicDayStart(now);
+
+  for (let i = 0; i < days; i++) {
+    const dayStart = firstDay + i * day;
+    const weekday = new Date(
+      dayStart + clinicOffsetMinutes * minute
+    ).getUTCDay();
+    const slots: Slot[] = [];
+
+    sessions
+      .filter((session) => session.weekdays.includes(weekday))
+      .forEach((session) => {
+        for (
+          let time = session.from;
+          time + session.slotMinutes <= session.to;
+          time += session.slotMinutes
+        ) {
+          const start = dayStart + time * minute;
+          if (start <= now) continue;
+
+          const slot: Slot = {
+            start: new Date(start).toISOString(),
+            end: new Date(start + session.slotMinutes * minute).toISOString(),
+            mode,
+          };
+          if (!isBooked(slot, bookings)) slots.push(slot);
+        }
+      });
+
+    if (slots.length > 0) {
+      result.push({ date: clinicDate(dayStart), slots });
+    }
+  }
+
+  return result;
+}
+
+// The slot starting at `start`, if the doctor offers it and it is still open
+export function findOpenSlot(
+  doctor: Doctor,
+  mode: ConsultType,
+  start: string,
+  bookings: Booking[],
+  now = Date.now()
+): Slot | undefined {
+  const time = new Date(start).getTime();
+  if (Number.isNaN(time)) return;
+  // Only slots listSlots would show can be booked, checked up front so a far
+  // off start doesn't generate years of slots
+  const windowEnd = clinicDayStart(now) + bookingWindowDays * day;
+  if (time <= now || time >= windowEnd) return;
+
+  return listSlots(doctor, mode, bookings, now)
+    .flatMap((entry) => entry.slots)
+    .find((slot) => slot.start === new Date(time).toISOString());
+}
+
+// Earliest open slot in either mode, for the badge on doctor cards
+export function summarizeAvailability(
+  doctor: Doctor,
+  bookings: Booking[],
+  now = Date.now()
+): AvailabilitySummary {
+  const modes: ConsultType[] = ["video", "clinic"];
+  const next =
+    modes
+      .map((mode) => listSlots(doctor, mode, bookings, now)[0]?.slots[0])
+      .filter((slot): slot is Slot => !!slot)
+      .sort((a, b) => a.start.localeCompare(b.start))[0] ?? null;
+
+  return {
+    today: !!next && clinicDate(next.start) === clinicDate(now),
+    next,
+  };
+}
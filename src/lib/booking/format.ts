@@ -0,0 +1,67 @@
+import { defaultLocale, intlLocales, type Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+import { clinicDate, clinicTimeZone } from "./availability";
+
+const timeFormats = new Map<Locale, Intl.DateTimeFormat>();
+const dayFormats = new Map<Locale, Intl.DateTimeFormat>();
+
+function timeFormat(locale: Locale) {
+  let format = timeFormats.get(locale);
+  if (!format) {
+    format = new Intl.DateTimeFormat(intlLocales[locale], {
+      timeZone: clinicTimeZone,
+      hour: "numeric",
+      minute: "2-digit",
+    });
+    timeFormats.set(locale, format);
+  }
+  return format;
+}
+
+function dayFormat(locale: Locale) {
+  let format = dayFormats.get(locale);
+  if (!format) {
+    format = new Intl.DateTimeFormat(intlLocales[locale], {
+      timeZone: clinicTimeZone,
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+    });
+    dayFormats.set(locale, format);
+  }
+  return format;
+}
+
+// "6:30 pm"
+export function formatSlotTime(
+  iso: string,
+  locale: Locale = defaultLocale
+): string {
+  return timeFormat(locale).format(new Date(iso));
+}
+
+// "Today", "Tomorrow" or "Tue, 21 Oct" for a YYYY-MM-DD clinic date
+export function formatSlotDay(
+  date: string,
+  locale: Locale = defaultLocale,
+  now = Date.now()
+): string {
+  const { t } = getI18n(locale);
+  const today = clinicDate(now);
+  const tomorrow = clinicDate(now + 24 * 60 * 60 * 1000);
+  if (date === today) return t("format.today");
+  if (date === tomorrow) return t("format.tomorrow");
+  return dayFormat(locale).format(new Date(`${date}T12:00:00+05:30`));
+}
+
+// "Tomorrow, 10:00 am"
+export function formatSlot(
+  iso: string,
+  locale: Locale = defaultLocale,
+  now = Date.now()
+): string {
+  return getI18n(locale).t("format.slot", {
+    day: formatSlotDay(clinicDate(iso), locale, now),
+    time: formatSlotTime(iso, locale),
+  });
+}
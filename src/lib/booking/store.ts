@@ -0,0 +1,53 @@
+import { randomUUID } from "crypto";
+import { jsonStore } from "@/lib/store/json-store";
+import type { Doctor } from "@/lib/doctors/types";
+import { findOpenSlot } from "./availability";
+import type { Booking, BookingRequest } from "./types";
+
+const store = jsonStore<Booking[]>("bookings.json", () => []);
+
+// Thrown when the requested slot is taken, in the past or never offered
+export class SlotUnavailableError extends Error {
+  constructor(message = "This slot is no longer available") {
+    super(message);
+    this.name = "SlotUnavailableError";
+  }
+}
+
+export async function listBookings(doctorId?: string): Promise<Booking[]> {
+  const bookings = await store.read();
+  return doctorId
+    ? bookings.filter((booking) => booking.doctorId === doctorId)
+    : bookings;
+}
+
+// Check and write happen under the store lock, so two requests for the same
+// slot can't both succeed
+export async function reserveSlot(
+  doctor: Doctor,
+  request: BookingRequest
+): Promise<Booking> {
+  return store.update((bookings) => {
+    const slot = findOpenSlot(
+      doctor,
+      request.mode,
+      request.start,
+      bookings.filter((booking) => booking.doctorId === doctor.id)
+    );
+    if (!slot) {
+      throw new SlotUnavailableError();
+    }
+
+    const booking: Booking = {
+      id: randomUUID(),
+      doctorId: doctor.id,
+      mode: slot.mode,
+      start: slot.start,
+      end: slot.end,
+      patient: request.patient,
+      createdAt: new Date().toISOString(),
+    };
+    bookings.push(booking);
+    return booking;
+  });
+}
@@ -0,0 +1,45 @@
+import type { ConsultType } from "@/lib/doctors/types";
+
+export interface Slot {
+  start: string; // ISO timestamp
+  end: string;
+  mode: ConsultType;
+}
+
+export interface DaySlots {
+  date: string; // YYYY-MM-DD in clinic time
+  slots: Slot[];
+}
+
+// Shown on doctor cards
+export interface AvailabilitySummary {
+  today: boolean;
+  next: Slot | null;
+}
+
+export interface Patient {
+  name: string;
+  phone: string;
+  email?: string;
+  age?: number;
+  reason?: string;
+}
+
+export interface BookingRequest {
+  doctorId: string;
+  mode: ConsultType;
+  start: string;
+  patient: Patient;
+}
+
+export interface Booking extends BookingRequest {
+  id: string;
+  end: string;
+  createdAt: string;
+}
+
+// Shape returned by GET /api/doctors/[id]/availability
+export interface AvailabilityResponse {
+  mode: ConsultType;
+  days: DaySlots[];
+}
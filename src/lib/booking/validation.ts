@@ -0,0 +1,65 @@
+import type { MessageKey } from "@/lib/i18n/translate";
+import type { Patient } from "./types";
+
+// Message keys, translated where the form shows them
+export type PatientErrors = Partial<Record<keyof Patient, MessageKey>>;
+
+// Shared by the booking form and POST /api/bookings
+export function validatePatient(
+  input: unknown
+):
+  | { patient: Patient; errors?: never }
+  | { patient?: never; errors: PatientErrors } {
+  const values =
+    typeof input === "object" && input !== null
+      ? (input as Record<string, unknown>)
+      : {};
+  const errors: PatientErrors = {};
+
+  const name = typeof values.name === "string" ? values.name.trim() : "";
+  if (name.length < 2) {
+    errors.name = "booking.errors.name";
+  } else if (name.length > 80) {
+    errors.name = "booking.errors.nameTooLong";
+  }
+
+  // Indian mobile numbers, with or without +91 / 0 prefix
+  const phoneDigits =
+    typeof values.phone === "string" ? values.phone.replace(/[\s-]/g, "") : "";
+  const phone = phoneDigits.replace(/^(\+91|91|0)(?=\d{10}$)/, "");
+  if (!/^[6-9]\d{9}$/.test(phone)) {
+    errors.phone = "booking.errors.phone";
+  }
+
+  const email = typeof values.email === "string" ? values.email.trim() : "";
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    errors.email = "booking.errors.email";
+  }
+
+  let age: number | undefined;
+  if (values.age !== undefined && values.age !== null && values.age !== "") {
+    age = Number(values.age);
+    if (!Number.isInteger(age) || age < 0 || age > 120) {
+      errors.age = "booking.errors.age";
+    }
+  }
+
+  const reason = typeof values.reason === "string" ? values.reason.trim() : "";
+  if (reason.length > 500) {
+    errors.reason = "booking.errors.reason";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return {
+    patient: {
+      name,
+      phone,
+      ...(email ? { email } : {}),
+      ...(age !== undefined ? { age } : {}),
+      ...(reason ? { reason } : {}),
+    },
+  };
+}
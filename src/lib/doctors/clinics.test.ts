@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import fixture from "@/data/doctors.json";
+import { clinicIdOf, doctorsAt, listClinics } from "./clinics";
+import { normalizeDoctors } from "./schema";
+
+const doctors = normalizeDoctors(fixture).doctors;
+
+const clinicAt = (name: string, locality: string, city: string) => ({
+  name,
+  address: { locality, city, address_line1: "", location: "" },
+});
+
+describe("clinicIdOf", () => {
+  it("adds the locality and city unless the name has them", () => {
+    expect(
+      clinicIdOf(clinicAt("Apollo Clinic Jayanagar", "Jayanagar", "Bangalore"))
+    ).toBe("apollo-clinic-jayanagar-bangalore");
+    expect(
+      clinicIdOf(clinicAt("Smile Dental Care", "Koramangala", "Bangalore"))
+    ).toBe("smile-dental-care-koramangala-bangalore");
+    expect(clinicIdOf(clinicAt("", "Koramangala", "Bangalore"))).toBe(
+      undefined
+    );
+  });
+});
+
+describe("listClinics", () => {
+  it("gathers each clinic once with its doctors", () => {
+    const clinics = listClinics(doctors);
+
+    expect(clinics).toHaveLength(11);
+    expect(
+      clinics.reduce((count, clinic) => count + clinic.doctorIds.length, 0)
+    ).toBe(doctors.length);
+
+    const lifeline = clinics.find(
+      (clinic) => clinic.name === "Lifeline Multispeciality Clinic"
+    );
+    expect(lifeline).toMatchObject({
+      id: "lifeline-multispeciality-clinic-andheri-west-mumbai",
+      doctorIds: ["111605", "111611", "111616"],
+      address: { logo_url: "/clinics/lifeline.svg" },
+    });
+    expect(doctorsAt(doctors, lifeline!.id)).toHaveLength(3);
+  });
+
+  it("orders clinics by city, then name", () => {
+    const keys = listClinics(doctors).map(
+      ({ name, address }) => `${address.city}/${name}`
+    );
+    expect(keys).toEqual(
+      [...keys].sort((a, b) => {
+        const [cityA, nameA] = a.split("/");
+        const [cityB, nameB] = b.split("/");
+        return cityA.localeCompare(cityB) || nameA.localeCompare(nameB);
+      })
+    );
+  });
+});
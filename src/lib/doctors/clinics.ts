@@ -0,0 +1,106 @@
+import { defaultLocale, localePath, type Locale } from "@/lib/i18n/config";
+import { absoluteUrl, siteUrl } from "@/lib/site";
+import { slugify } from "./seo";
+import type { Clinic, Doctor, RawDoctor } from "./types";
+
+// Stable id for a clinic from its name and where it is, e.g.
+// "apollo-clinic-jayanagar-bangalore". The locality and city are left out
+// when the name already contains them. Clinics without a name get no id.
+export function clinicIdOf(clinic: RawDoctor["clinic"]): string | undefined {
+  let id = slugify(clinic.name);
+  if (!id) return undefined;
+
+  [clinic.address.locality, clinic.address.city].forEach((place) => {
+    const slug = slugify(place);
+    if (slug && !`-${id}-`.includes(`-${slug}-`)) id += `-${slug}`;
+  });
+  return id;
+}
+
+export function clinicPath(id: string): string {
+  return `/clinics/${encodeURIComponent(id)}`;
+}
+
+// Every clinic doctors practise at, sorted by city then name. Details missing
+// from one doctor's copy of the clinic (like the logo) are taken from another.
+export function listClinics(doctors: Doctor[]): Clinic[] {
+  const clinics = new Map<string, Clinic>();
+
+  doctors.forEach((doctor) => {
+    if (!doctor.clinicId) return;
+    const { name, address } = doctor.clinic;
+    const clinic = clinics.get(doctor.clinicId);
+
+    if (!clinic) {
+      clinics.set(doctor.clinicId, {
+        id: doctor.clinicId,
+        name,
+        address: { ...address },
+        coordinates: doctor.coordinates,
+        doctorIds: [doctor.id],
+        specialities: doctor.specialities.map((spec) => spec.name),
+      });
+      return;
+    }
+
+    clinic.doctorIds.push(doctor.id);
+    clinic.address.address_line1 ||= address.address_line1;
+    clinic.address.location ||= address.location;
+    clinic.address.logo_url ??= address.logo_url;
+    clinic.coordinates ??= doctor.coordinates;
+    doctor.specialities.forEach(({ name }) => {
+      if (!clinic.specialities.includes(name)) clinic.specialities.push(name);
+    });
+  });
+
+  return Array.from(clinics.values())
+    .map((clinic) => ({
+      ...clinic,
+      specialities: [...clinic.specialities].sort(),
+    }))
+    .sort(
+      (a, b) =>
+        a.address.city.localeCompare(b.address.city) ||
+        a.name.localeCompare(b.name)
+    );
+}
+
+export function findClinic(doctors: Doctor[], id: string): Clinic | undefined {
+  return listClinics(doctors).find((clinic) => clinic.id === id);
+}
+
+export function doctorsAt(doctors: Doctor[], clinicId: string): Doctor[] {
+  return doctors.filter((doctor) => doctor.clinicId === clinicId);
+}
+
+// schema.org MedicalClinic description of a clinic page
+export function clinicJsonLd(clinic: Clinic, locale: Locale = defaultLocale) {
+  const { address } = clinic;
+  const url = absoluteUrl(localePath(locale, clinicPath(clinic.id)));
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "MedicalClinic",
+    "@id": url,
+    url,
+    name: clinic.name,
+    logo: address.logo_url && new URL(address.logo_url, siteUrl).href,
+    medicalSpecialty: clinic.specialities,
+    address: {
+      "@type": "PostalAddress",
+      streetAddress: address.address_line1,
+      addressLocality: address.locality,
+      addressRegion: address.city,
+      addressCountry: "IN",
+    },
+    ...(clinic.coordinates
+      ? {
+          geo: {
+            "@type": "GeoCoordinates",
+            latitude: clinic.coordinates.lat,
+            longitude: clinic.coordinates.lng,
+          },
+        }
+      : {}),
+  };
+}
@@ -0,0 +1,104 @@
+import { ratingThresholds } from "@/lib/reviews/ratings";
+import type { RatingSummary } from "@/lib/reviews/types";
+import { getSearchIndex, type SearchIndex } from "@/lib/search/search-index";
+import { feeBandOf } from "./fee-bands";
+import { queryDoctors } from "./query";
+import type { Doctor, DoctorQuery, FacetCounts, FacetKey } from "./types";
+import { encodeQuery } from "./url-state";
+
+interface FacetDefinition {
+  // Options a doctor counts towards
+  values: (doctor: Doctor, ratings: Record<string, RatingSummary>) => string[];
+  // The query to count against: every active filter except the facet's own,
+  // so picking an option shows what switching to it would yield
+  base: (query: DoctorQuery) => DoctorQuery;
+}
+
+const facetDefinitions: Record<FacetKey, FacetDefinition> = {
+  consultType: {
+    values: (doctor) => [
+      ...(doctor.video_consult ? ["video"] : []),
+      ...(doctor.in_clinic ? ["clinic"] : []),
+    ],
+    base: (query) => ({ ...query, consultType: null }),
+  },
+  specialties: {
+    values: (doctor) => doctor.specialities.map((s) => s.name),
+    // With "all of" every extra speciality narrows the results, so count
+    // within the current matches instead of dropping the selection
+    base: (query) =>
+      query.specialtyMatch === "all" ? query : { ...query, specialties: [] },
+  },
+  languages: {
+    values: (doctor) => doctor.languages,
+    base: (query) => ({ ...query, languages: [] }),
+  },
+  // Localities sit inside cities, so a city count ignores both pickers
+  cities: {
+    values: (doctor) => [doctor.clinic.address.city],
+    base: (query) => ({ ...query, cities: [], localities: [] }),
+  },
+  localities: {
+    values: (doctor) => [doctor.clinic.address.locality],
+    base: (query) => ({ ...query, localities: [] }),
+  },
+  clinics: {
+    values: (doctor) => (doctor.clinicId ? [doctor.clinicId] : []),
+    base: (query) => ({ ...query, clinics: [] }),
+  },
+  feeBands: {
+    values: (doctor) => {
+      const band = feeBandOf(doctor.fees.amount);
+      return band ? [band.id] : [];
+    },
+    base: (query) => ({ ...query, minFee: null, maxFee: null }),
+  },
+  // Every threshold the doctor's average reaches
+  ratings: {
+    values: (doctor, ratings) => {
+      const average = ratings[doctor.id]?.average ?? 0;
+      return ratingThresholds
+        .filter((threshold) => average >= threshold)
+        .map(String);
+    },
+    base: (query) => ({ ...query, minRating: null }),
+  },
+};
+
+// Live counts for every facet option. Facets sharing a base query reuse the
+// same filtered set, so this costs at most one query per distinct base.
+export function computeFacets(
+  doctors: Doctor[],
+  query: DoctorQuery,
+  index: SearchIndex = getSearchIndex(doctors),
+  ratings: Record<string, RatingSummary> = {}
+): FacetCounts {
+  const matches = new Map<string, Doctor[]>();
+  const matching = (base: DoctorQuery) => {
+    const key = encodeQuery({ ...base, sortBy: null }).toString();
+    let result = matches.get(key);
+    if (!result) {
+      result = queryDoctors(
+        doctors,
+        { ...base, sortBy: null },
+        index,
+        ratings
+      ).doctors;
+      matches.set(key, result);
+    }
+    return result;
+  };
+
+  const facets = {} as FacetCounts;
+  (Object.keys(facetDefinitions) as FacetKey[]).forEach((key) => {
+    const { values, base } = facetDefinitions[key];
+    const counts: Record<string, number> = {};
+    matching(base(query)).forEach((doctor) =>
+      new Set(values(doctor, ratings)).forEach(
+        (value) => (counts[value] = (counts[value] ?? 0) + 1)
+      )
+    );
+    facets[key] = counts;
+  });
+  return facets;
+}
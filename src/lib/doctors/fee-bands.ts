@@ -0,0 +1,36 @@
+import type { NumberRange } from "./types";
+
+export interface FeeBand {
+  id: string;
+  min: number;
+  // Exclusive upper bound; open-ended when missing
+  max?: number;
+}
+
+export const feeBands: FeeBand[] = [
+  { id: "0-500", min: 0, max: 500 },
+  { id: "500-1000", min: 500, max: 1000 },
+  { id: "1000-1500", min: 1000, max: 1500 },
+  { id: "1500+", min: 1500 },
+];
+
+export function feeBandOf(amount: number): FeeBand | undefined {
+  return feeBands.find(
+    (band) =>
+      amount >= band.min && (band.max === undefined || amount < band.max)
+  );
+}
+
+// The minFee / maxFee filter picking out a band. The filter includes both
+// bounds, so it stops a rupee below the band's exclusive max; ends beyond
+// the roster's fees stay open (null).
+export function feeBandRange(
+  band: FeeBand,
+  bounds: NumberRange
+): [number | null, number | null] {
+  const max = band.max === undefined ? null : band.max - 1;
+  return [
+    band.min > bounds.min ? band.min : null,
+    max === null || max >= bounds.max ? null : max,
+  ];
+}
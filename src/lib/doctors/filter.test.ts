@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import fixture from "@/data/doctors.json";
+import { computeFacets } from "./facets";
+import { feeBandRange, feeBands } from "./fee-bands";
+import { filterDoctors } from "./filter";
+import { listFilterOptions } from "./query";
+import { normalizeDoctors } from "./schema";
+import type { Doctor } from "./types";
+import { emptyQuery } from "./url-state";
+
+const doctors = normalizeDoctors(fixture).doctors;
+
+const names = (list: Doctor[]) => list.map((doctor) => doctor.name);
+
+describe("filterDoctors", () => {
+  it("returns the whole roster in order without criteria", () => {
+    expect(names(filterDoctors(doctors))).toEqual(names(doctors));
+  });
+
+  it("doesn't modify the roster", () => {
+    const before = [...doctors];
+    const result = filterDoctors(doctors, { sortBy: "fees" });
+
+    expect(doctors).toEqual(before);
+    expect(result).not.toBe(doctors);
+  });
+
+  it("filters by consultation mode", () => {
+    const video = filterDoctors(doctors, { consultType: "video" });
+    const clinic = filterDoctors(doctors, { consultType: "clinic" });
+
+    expect(video).toHaveLength(19);
+    expect(video.every((doctor) => doctor.video_consult)).toBe(true);
+    expect(clinic).toHaveLength(20);
+    expect(clinic.every((doctor) => doctor.in_clinic)).toBe(true);
+  });
+
+  it("matches any or all of the picked specialities", () => {
+    const specialties = ["Gynaecologist", "Obstetrician"];
+
+    expect(filterDoctors(doctors, { specialties })).toHaveLength(2);
+    expect(
+      names(filterDoctors(doctors, { specialties, specialtyMatch: "all" }))
+    ).toEqual(["Dr. Farah Khan"]);
+  });
+
+  it("filters by language, city and locality", () => {
+    expect(names(filterDoctors(doctors, { languages: ["Tamil"] }))).toEqual([
+      "Dr. Meera Iyer",
+      "Dr. Karthik Subramanian",
+      "Dr. Lakshmi Narayanan",
+      "Dr. Divya Krishnan",
+    ]);
+    expect(filterDoctors(doctors, { cities: ["Bangalore"] })).toHaveLength(7);
+    expect(
+      names(
+        filterDoctors(doctors, {
+          cities: ["Bangalore"],
+          localities: ["Jayanagar"],
+        })
+      )
+    ).toEqual(["Dr. Ananya Rao", "Dr. Kavya Hegde", "Dr. Divya Krishnan"]);
+  });
+
+  it("filters by clinic", () => {
+    expect(
+      names(
+        filterDoctors(doctors, {
+          clinics: ["carepoint-health-centre-saket-delhi"],
+        })
+      )
+    ).toEqual(["Dr. Priya Sharma", "Dr. Imran Qureshi", "Dr. Pooja Agarwal"]);
+  });
+
+  it("keeps fees and experience within the range, bounds included", () => {
+    const fees = filterDoctors(doctors, { minFee: 1000 });
+    expect(fees).toHaveLength(6);
+    expect(fees.every((doctor) => doctor.fees.amount >= 1000)).toBe(true);
+
+    expect(
+      names(filterDoctors(doctors, { minExperience: 20, maxExperience: 22 }))
+    ).toEqual(["Dr. Venkat Reddy", "Dr. Harpreet Singh"]);
+  });
+
+  it("filters each fee band to the doctors its facet counts", () => {
+    const counts = computeFacets(doctors, emptyQuery).feeBands;
+    const bounds = listFilterOptions(doctors).fees;
+
+    feeBands.forEach((band) => {
+      const [minFee, maxFee] = feeBandRange(band, bounds);
+      expect(filterDoctors(doctors, { minFee, maxFee })).toHaveLength(
+        counts[band.id] ?? 0
+      );
+    });
+  });
+
+  it("combines filters", () => {
+    expect(
+      names(
+        filterDoctors(doctors, {
+          cities: ["Bangalore"],
+          consultType: "video",
+          maxFee: 500,
+        })
+      )
+    ).toEqual(["Dr. Ananya Rao", "Dr. Arjun Menon", "Dr. Shreya Nair"]);
+  });
+
+  it("searches names, specialities and clinics", () => {
+    expect(names(filterDoctors(doctors, { search: "dentist" }))).toEqual([
+      "Dr. Kshitij Jagdale",
+      "Dr. Imran Qureshi",
+      "Dr. Shreya Nair",
+    ]);
+    expect(filterDoctors(doctors, { search: "no such doctor" })).toEqual([]);
+  });
+
+  it("ignores a search made only of stop words", () => {
+    expect(names(filterDoctors(doctors, { search: "Dr." }))).toEqual(
+      names(doctors)
+    );
+    expect(filterDoctors(doctors, { search: "the a" })).toHaveLength(
+      doctors.length
+    );
+  });
+
+  it("sorts by fees, breaking ties by experience", () => {
+    expect(
+      names(filterDoctors(doctors, { sortBy: "fees" }).slice(0, 3))
+    ).toEqual(["Dr. Neha Joshi", "Dr. Shreya Nair", "Dr. Sanjay Patil"]);
+    expect(
+      names(
+        filterDoctors(doctors, { sortBy: "fees", sortDir: "desc" }).slice(0, 3)
+      )
+    ).toEqual(["Dr. Suresh Kumar", "Dr. Gaurav Mehta", "Dr. Sayantani Ghosh"]);
+  });
+
+  it("filters and sorts by rating, unreviewed doctors last", () => {
+    const ratings = {
+      "111601": { average: 4.2, count: 5 },
+      "111602": { average: 4.8, count: 2 },
+      "111603": { average: 4.2, count: 9 },
+      "111604": { average: 2.5, count: 4 },
+    };
+
+    expect(names(filterDoctors(doctors, { minRating: 4 }, ratings))).toEqual([
+      "Dr. Ananya Rao",
+      "Dr. Kshitij Jagdale",
+      "Dr. Meera Iyer",
+    ]);
+
+    // Equal averages: more reviews first
+    const sorted = filterDoctors(doctors, { sortBy: "rating" }, ratings);
+    expect(sorted.slice(0, 4).map((doctor) => doctor.id)).toEqual([
+      "111602",
+      "111603",
+      "111601",
+      "111604",
+    ]);
+    expect(sorted).toHaveLength(doctors.length);
+  });
+
+  it("sorts by experience, most experienced first", () => {
+    const years = filterDoctors(doctors, { sortBy: "experience" }).map(
+      (doctor) => doctor.experienceYears
+    );
+    expect(years).toEqual([...years].sort((a, b) => b - a));
+  });
+
+  it("limits to a radius around a place and sorts by distance", () => {
+    const near = "Jayanagar, Bangalore";
+
+    expect(
+      filterDoctors(doctors, { near, radiusKm: 5 }).map(
+        (doctor) => doctor.clinic.address.city
+      )
+    ).toEqual(Array(5).fill("Bangalore"));
+    expect(
+      names(filterDoctors(doctors, { near, sortBy: "distance" }).slice(0, 2))
+    ).toEqual(["Dr. Kavya Hegde", "Dr. Ananya Rao"]);
+  });
+});
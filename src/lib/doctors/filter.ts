@@ -0,0 +1,25 @@
+import type { RatingSummary } from "@/lib/reviews/types";
+import { queryDoctors } from "./query";
+import type { Doctor, DoctorQuery } from "./types";
+import { emptyQuery } from "./url-state";
+
+// Filters and sort order to apply. Anything left out doesn't filter, and
+// without `sortBy` the roster (or search relevance) order is kept.
+export type FilterCriteria = Partial<Omit<DoctorQuery, "page" | "pageSize">>;
+
+// Every doctor matching `criteria`, in the order the listing shows them.
+// Pure: the roster isn't modified and the same input gives the same list.
+// `ratings` (approved review ratings per doctor id) feed `minRating` and the
+// rating sort.
+export function filterDoctors(
+  doctors: Doctor[],
+  criteria: FilterCriteria = {},
+  ratings: Record<string, RatingSummary> = {}
+): Doctor[] {
+  return queryDoctors(
+    doctors,
+    { ...emptyQuery, ...criteria },
+    undefined,
+    ratings
+  ).doctors;
+}
@@ -0,0 +1,19 @@
+import type { Money } from "./types";
+
+// "₹ 1,200" for INR, "$ 40" etc. for other currencies
+export function formatFees(fees: Money): string {
+  const symbol =
+    new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: fees.currency,
+    })
+      .formatToParts(0)
+      .find((part) => part.type === "currency")?.value ?? fees.currency;
+
+  return `${symbol} ${fees.amount.toLocaleString("en-IN")}`;
+}
+
+// "13 Years of experience"
+export function formatExperience(years: number): string {
+  return `${years} ${years === 1 ? "Year" : "Years"} of experience`;
+}
@@ -0,0 +1,85 @@
+import { summarizeAvailability } from "@/lib/booking/availability";
+import { listBookings } from "@/lib/booking/store";
+import type { AvailabilitySummary } from "@/lib/booking/types";
+import { loadRatings } from "@/lib/reviews/store";
+import { getSearchIndex } from "@/lib/search/search-index";
+import { computeFacets } from "./facets";
+import { listFilterOptions, listSpecialties, queryDoctors } from "./query";
+import { loadDoctors } from "./sources";
+import type { Doctor, DoctorsResponse } from "./types";
+import { decodeQuery } from "./url-state";
+
+// Next open slot for each doctor, keyed by id
+export async function availabilityFor(
+  doctors: Doctor[]
+): Promise<Record<string, AvailabilitySummary>> {
+  const bookings = await listBookings();
+  const now = Date.now();
+
+  return Object.fromEntries(
+    doctors.map((doctor) => [
+      doctor.id,
+      summarizeAvailability(
+        doctor,
+        bookings.filter((booking) => booking.doctorId === doctor.id),
+        now
+      ),
+    ])
+  );
+}
+
+// Everything the listing page needs for one set of filters. Used by
+// /api/doctors and to server-render the first page.
+export async function getDoctorsResponse(
+  params: URLSearchParams
+): Promise<DoctorsResponse> {
+  const doctors = await loadDoctors();
+  // Decoded the way the page does, so old comma-joined specialities match
+  const specialties = listSpecialties(doctors);
+  const query = decodeQuery(params, specialties);
+  const index = getSearchIndex(doctors);
+  const ratings = await loadRatings();
+  const {
+    doctors: matches,
+    highlights,
+    origin,
+    distances,
+  } = queryDoctors(doctors, query, index, ratings);
+
+  const { pageSize } = query;
+  const pageNumber = Math.min(
+    query.page,
+    Math.max(1, Math.ceil(matches.length / pageSize))
+  );
+  const page = matches.slice(
+    (pageNumber - 1) * pageSize,
+    pageNumber * pageSize
+  );
+
+  return {
+    doctors: page,
+    total: matches.length,
+    page: pageNumber,
+    pageSize,
+    specialties,
+    options: listFilterOptions(doctors),
+    facets: computeFacets(doctors, query, index, ratings),
+    origin,
+    distances: forPage(distances, page),
+    availability: await availabilityFor(page),
+    ratings: forPage(ratings, page),
+    highlights: forPage(highlights, page),
+  };
+}
+
+// Entries of a per-doctor map for the doctors being returned
+function forPage<T>(
+  values: Record<string, T>,
+  page: Doctor[]
+): Record<string, T> {
+  return Object.fromEntries(
+    page.flatMap((doctor) =>
+      doctor.id in values ? [[doctor.id, values[doctor.id]]] : []
+    )
+  );
+}
@@ -0,0 +1,182 @@
+import { distanceKm } from "@/lib/geo/coordinates";
+import { resolvePlace, type Place } from "@/lib/geo/places";
+import type { RatingSummary } from "@/lib/reviews/types";
+import { getSearchIndex, type SearchIndex } from "@/lib/search/search-index";
+import { tokenize } from "@/lib/search/tokenize";
+import { listClinics } from "./clinics";
+import { defaultDirection, sortDoctors } from "./sort";
+import type { Doctor, DoctorQuery, FilterOptions, NumberRange } from "./types";
+
+export interface QueryResult {
+  doctors: Doctor[];
+  // Matched search terms per doctor id, for highlighting
+  highlights: Record<string, string[]>;
+  origin: Place | null;
+  // Kilometres from the origin per doctor id, for doctors with coordinates
+  distances: Record<string, number>;
+}
+
+// `ratings` holds approved review ratings per doctor id, for the rating
+// filter and sort
+export function queryDoctors(
+  doctors: Doctor[],
+  query: DoctorQuery,
+  index: SearchIndex = getSearchIndex(doctors),
+  ratings: Record<string, RatingSummary> = {}
+): QueryResult {
+  let filtered = [...doctors];
+  const highlights: Record<string, string[]> = {};
+  const relevance: Record<string, number> = {};
+
+  // Apply search filter, best matches first unless a sort is chosen. A search
+  // of only stop words ("Dr", "the") filters nothing rather than everything.
+  if (query.search && tokenize(query.search).length > 0) {
+    const hits = index.search(query.search);
+    hits.forEach((hit) => {
+      highlights[hit.doctor.id] = hit.terms;
+      relevance[hit.doctor.id] = hit.score;
+    });
+    filtered = hits.map((hit) => hit.doctor);
+  }
+
+  // Apply consultation type filter
+  if (query.consultType === "video") {
+    filtered = filtered.filter((doctor) => doctor.video_consult);
+  } else if (query.consultType === "clinic") {
+    filtered = filtered.filter((doctor) => doctor.in_clinic);
+  }
+
+  // Apply specialty filters, matching any or all of the selection
+  if (query.specialties.length > 0) {
+    filtered = filtered.filter((doctor) => {
+      const covers = (specialty: string) =>
+        doctor.specialities.some((s) => s.name === specialty);
+      return query.specialtyMatch === "all"
+        ? query.specialties.every(covers)
+        : query.specialties.some(covers);
+    });
+  }
+
+  // Apply language and location filters, matching any of each selection
+  if (query.languages.length > 0) {
+    filtered = filtered.filter((doctor) =>
+      doctor.languages.some((language) => query.languages.includes(language))
+    );
+  }
+  if (query.cities.length > 0) {
+    filtered = filtered.filter((doctor) =>
+      query.cities.includes(doctor.clinic.address.city)
+    );
+  }
+  if (query.localities.length > 0) {
+    filtered = filtered.filter((doctor) =>
+      query.localities.includes(doctor.clinic.address.locality)
+    );
+  }
+  if (query.clinics.length > 0) {
+    filtered = filtered.filter(
+      (doctor) => !!doctor.clinicId && query.clinics.includes(doctor.clinicId)
+    );
+  }
+
+  // Apply fee and experience ranges
+  filtered = filtered.filter(
+    (doctor) =>
+      inRange(doctor.fees.amount, query.minFee, query.maxFee) &&
+      inRange(doctor.experienceYears, query.minExperience, query.maxExperience)
+  );
+
+  // Apply the minimum rating; unreviewed doctors have no rating to compare
+  if (query.minRating !== null) {
+    const minRating = query.minRating;
+    filtered = filtered.filter(
+      (doctor) => (ratings[doctor.id]?.average ?? 0) >= minRating
+    );
+  }
+
+  // Measure from the chosen place and apply the radius. Doctors without
+  // coordinates can't be placed inside a radius.
+  const origin = query.near ? resolvePlace(doctors, query.near) : null;
+  const distances: Record<string, number> = {};
+  if (origin) {
+    filtered.forEach((doctor) => {
+      if (doctor.coordinates) {
+        distances[doctor.id] = distanceKm(
+          origin.coordinates,
+          doctor.coordinates
+        );
+      }
+    });
+    if (query.radiusKm !== null) {
+      const radius = query.radiusKm;
+      filtered = filtered.filter((doctor) => distances[doctor.id] <= radius);
+    }
+  }
+
+  // Apply sorting. Without a chosen key, searches stay in relevance order
+  // and everything else in roster order.
+  if (query.sortBy) {
+    filtered = sortDoctors(
+      filtered,
+      query.sortBy,
+      query.sortDir ?? defaultDirection[query.sortBy],
+      { relevance, distances, ratings }
+    );
+  }
+
+  return { doctors: filtered, highlights, origin, distances };
+}
+
+// Unique specialties across the roster, for the filter sidebar
+export function listSpecialties(doctors: Doctor[]): string[] {
+  const specialties = new Set<string>();
+  doctors.forEach((doctor) => {
+    doctor.specialities.forEach((spec) => specialties.add(spec.name));
+  });
+  return Array.from(specialties).sort();
+}
+
+// Languages, locations, clinics and range bounds across the roster, for the
+// sidebar
+export function listFilterOptions(doctors: Doctor[]): FilterOptions {
+  const languages = new Set<string>();
+  const localities: Record<string, Set<string>> = {};
+  doctors.forEach((doctor) => {
+    doctor.languages.forEach((language) => languages.add(language));
+    const { city, locality } = doctor.clinic.address;
+    (localities[city] ??= new Set()).add(locality);
+  });
+
+  return {
+    languages: Array.from(languages).sort(),
+    cities: Object.keys(localities).sort(),
+    localities: Object.fromEntries(
+      Object.entries(localities).map(([city, names]) => [
+        city,
+        Array.from(names).sort(),
+      ])
+    ),
+    clinics: listClinics(doctors).map(({ id, name, address }) => ({
+      id,
+      name,
+      city: address.city,
+    })),
+    fees: rangeOf(doctors.map((doctor) => doctor.fees.amount)),
+    feeCurrency: doctors[0]?.fees.currency ?? "INR",
+    experience: rangeOf(doctors.map((doctor) => doctor.experienceYears)),
+  };
+}
+
+function rangeOf(values: number[]): NumberRange {
+  return values.length > 0
+    ? { min: Math.min(...values), max: Math.max(...values) }
+    : { min: 0, max: 0 };
+}
+
+function inRange(value: number, min: number | null, max: number | null) {
+  return (min === null || value >= min) && (max === null || value <= max);
+}
+
+export function findDoctor(doctors: Doctor[], id: string): Doctor | undefined {
+  return doctors.find((doctor) => doctor.id === id);
+}
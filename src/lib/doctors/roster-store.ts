@@ -0,0 +1,172 @@
+import { access } from "fs/promises";
+import { jsonStore } from "@/lib/store/json-store";
+import { formatExperience, formatFees } from "./format";
+import { normalizeDoctor } from "./schema";
+import { configuredSource, rosterFileName, rosterPath } from "./sources";
+import type { Doctor, RawDoctor } from "./types";
+
+// Records as saved, in the same shape as the remote roster so an exported
+// file can be used as DOCTORS_FILE. Anything read by the listing still goes
+// through normalizeDoctor.
+const store = jsonStore<unknown[]>(rosterFileName, () => []);
+
+// Thrown when a record can't be saved as given
+export class InvalidDoctorError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid doctor: ${issues.join("; ")}`);
+    this.name = "InvalidDoctorError";
+  }
+}
+
+export class DoctorNotFoundError extends Error {
+  constructor(id: string) {
+    super(`No doctor with id ${id}`);
+    this.name = "DoctorNotFoundError";
+  }
+}
+
+export class DuplicateDoctorError extends Error {
+  constructor(id: string) {
+    super(`A doctor with id ${id} already exists`);
+    this.name = "DuplicateDoctorError";
+  }
+}
+
+// Problems that stop a record from being saved. Stricter than loading: the
+// listing tolerates a doctor without specialities, the admin form doesn't.
+export function recordIssues(record: unknown): string[] {
+  return check(record).issues;
+}
+
+function check(record: unknown): { doctor?: Doctor; issues: string[] } {
+  const result = normalizeDoctor(record);
+  if (result.issues) return { issues: result.issues };
+
+  return result.doctor.specialities.length === 0
+    ? { issues: ["add at least one speciality"] }
+    : { doctor: result.doctor, issues: [] };
+}
+
+function validate(record: RawDoctor): Doctor {
+  const { doctor, issues } = check(record);
+  if (!doctor) throw new InvalidDoctorError(issues);
+  return doctor;
+}
+
+// Saved form of a validated doctor, written like the source roster
+function toRecord(doctor: Doctor): RawDoctor {
+  return {
+    id: doctor.id,
+    name: doctor.name,
+    photo: doctor.photo,
+    doctor_introduction: doctor.doctor_introduction,
+    specialities: doctor.specialities,
+    fees: formatFees(doctor.fees),
+    experience: formatExperience(doctor.experienceYears),
+    languages: doctor.languages,
+    clinic: doctor.clinic,
+    video_consult: doctor.video_consult,
+    in_clinic: doctor.in_clinic,
+  };
+}
+
+function idOf(record: unknown): string | null {
+  const id = (record as { id?: unknown } | null)?.id;
+  return typeof id === "string" || typeof id === "number"
+    ? String(id).trim()
+    : null;
+}
+
+// Next free id for a record added without one, following the numeric ids of
+// the source roster
+function nextId(records: unknown[]): string {
+  const numbers = records
+    .map((record) => Number(idOf(record)))
+    .filter(Number.isInteger);
+  return String(numbers.length > 0 ? Math.max(...numbers) + 1 : 1);
+}
+
+// Change the saved roster. The first change copies the configured source so
+// edits start from what the listing was showing.
+function updateRoster<R>(fn: (records: unknown[]) => R): Promise<R> {
+  return store.update(async (records) => {
+    const saved = await access(rosterPath()).then(
+      () => true,
+      () => false
+    );
+    if (!saved) {
+      const seed = await configuredSource().load();
+      if (Array.isArray(seed)) records.push(...structuredClone(seed));
+    }
+    return fn(records);
+  });
+}
+
+// Add a doctor; without an id the next free one is used
+export async function createDoctor(record: RawDoctor): Promise<Doctor> {
+  return updateRoster((records) => {
+    const id = idOf(record) || nextId(records);
+    const doctor = validate({ ...record, id });
+    if (records.some((existing) => idOf(existing) === id)) {
+      throw new DuplicateDoctorError(id);
+    }
+    records.push(toRecord(doctor));
+    return doctor;
+  });
+}
+
+// The id can't change; it's in profile URLs, shortlists and bookings
+export async function updateDoctor(
+  id: string,
+  record: RawDoctor
+): Promise<Doctor> {
+  return updateRoster((records) => {
+    const index = records.findIndex((existing) => idOf(existing) === id);
+    if (index === -1) throw new DoctorNotFoundError(id);
+
+    const doctor = validate({ ...record, id });
+    records[index] = toRecord(doctor);
+    return doctor;
+  });
+}
+
+export async function deleteDoctor(id: string): Promise<void> {
+  return updateRoster((records) => {
+    const index = records.findIndex((existing) => idOf(existing) === id);
+    if (index === -1) throw new DoctorNotFoundError(id);
+    records.splice(index, 1);
+  });
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+}
+
+// Add records, replacing those with the same id. With `replace` the imported
+// records become the whole roster. Nothing is saved if any record is invalid.
+export async function importDoctors(
+  imported: RawDoctor[],
+  replace = false
+): Promise<ImportResult> {
+  const doctors = imported.map(validate);
+  return updateRoster((records) => {
+    if (replace) records.splice(0, records.length);
+
+    let created = 0;
+    let updated = 0;
+    doctors.forEach((doctor) => {
+      const index = records.findIndex(
+        (existing) => idOf(existing) === doctor.id
+      );
+      if (index === -1) {
+        records.push(toRecord(doctor));
+        created++;
+      } else {
+        records[index] = toRecord(doctor);
+        updated++;
+      }
+    });
+    return { created, updated };
+  });
+}
@@ -0,0 +1,178 @@
+import { parseLocation } from "@/lib/geo/coordinates";
+import { clinicIdOf } from "./clinics";
+import type { Doctor, Money } from "./types";
+
+// A record that failed validation and was left out of the roster
+export interface RejectedRecord {
+  index: number;
+  id: string | null;
+  issues: string[];
+}
+
+export interface NormalizeResult {
+  doctors: Doctor[];
+  rejected: RejectedRecord[];
+}
+
+const currencySymbols: [RegExp, string][] = [
+  [/₹|\brs\.?|\binr\b/i, "INR"],
+  [/\$|\busd\b/i, "USD"],
+  [/€|\beur\b/i, "EUR"],
+  [/£|\bgbp\b/i, "GBP"],
+];
+
+// "₹ 1,200" -> { amount: 1200, currency: "INR" }, currency defaults to INR
+export function parseFees(value: unknown): Money | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0
+      ? { amount: value, currency: "INR" }
+      : null;
+  }
+
+  if (typeof value !== "string") return null;
+
+  // A sign means a negative or malformed amount, not the digits after it
+  const digits = value.match(/([-+]\s*)?(\d[\d,]*(\.\d+)?)/);
+  if (!digits || digits[1]) return null;
+
+  const amount = Number(digits[2].replace(/,/g, ""));
+  if (!Number.isFinite(amount)) return null;
+
+  const currency =
+    currencySymbols.find(([pattern]) => pattern.test(value))?.[1] ?? "INR";
+
+  return { amount, currency };
+}
+
+// "13 Years of experience" -> 13
+export function parseExperience(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+
+  if (typeof value !== "string") return null;
+
+  const years = value.match(/([-+]\s*)?(\d+(\.\d+)?)\s*(years?|yrs?)?/i);
+  return years && !years[1] ? Number(years[2]) : null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== "" ? value : undefined;
+}
+
+function stringOrEmpty(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+// Validate one raw record. Missing optional fields get defaults, anything the
+// listing can't work without is reported as an issue.
+export function normalizeDoctor(
+  raw: unknown
+): { doctor: Doctor; issues?: never } | { doctor?: never; issues: string[] } {
+  if (!isObject(raw)) {
+    return { issues: ["record is not an object"] };
+  }
+
+  const issues: string[] = [];
+
+  const id =
+    typeof raw.id === "string" || typeof raw.id === "number"
+      ? String(raw.id).trim()
+      : "";
+  if (!id) issues.push("id is missing");
+
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  if (!name) issues.push("name is missing");
+
+  const specialities: { name: string }[] = [];
+  if (Array.isArray(raw.specialities)) {
+    raw.specialities.forEach((spec) => {
+      const specName = isObject(spec) ? spec.name : spec;
+      if (typeof specName === "string" && specName.trim()) {
+        specialities.push({ name: specName.trim() });
+      }
+    });
+  } else {
+    issues.push("specialities is not a list");
+  }
+
+  const fees = parseFees(raw.fees);
+  if (!fees) issues.push(`fees "${String(raw.fees)}" is not an amount`);
+
+  const experienceYears = parseExperience(raw.experience);
+  if (experienceYears === null) {
+    issues.push(
+      `experience "${String(raw.experience)}" is not a number of years`
+    );
+  }
+
+  const languages = Array.isArray(raw.languages)
+    ? raw.languages.filter(
+        (language): language is string =>
+          typeof language === "string" && language.trim() !== ""
+      )
+    : [];
+
+  const rawClinic = isObject(raw.clinic) ? raw.clinic : {};
+  const address = isObject(rawClinic.address) ? rawClinic.address : {};
+
+  if (issues.length > 0 || !fees || experienceYears === null) {
+    return { issues };
+  }
+
+  const clinic = {
+    name: stringOrEmpty(rawClinic.name),
+    address: {
+      locality: stringOrEmpty(address.locality),
+      city: stringOrEmpty(address.city),
+      address_line1: stringOrEmpty(address.address_line1),
+      location: stringOrEmpty(address.location),
+      logo_url: optionalString(address.logo_url),
+    },
+  };
+
+  return {
+    doctor: {
+      id,
+      name,
+      photo: optionalString(raw.photo),
+      doctor_introduction: optionalString(raw.doctor_introduction),
+      specialities,
+      fees,
+      experienceYears,
+      languages,
+      clinic,
+      clinicId: clinicIdOf(clinic),
+      coordinates: parseLocation(address.location) ?? undefined,
+      video_consult: raw.video_consult === true,
+      in_clinic: raw.in_clinic === true,
+    },
+  };
+}
+
+// Validate a whole roster, quarantining bad and duplicate records
+export function normalizeDoctors(data: unknown[]): NormalizeResult {
+  const doctors: Doctor[] = [];
+  const rejected: RejectedRecord[] = [];
+  const seen = new Set<string>();
+
+  data.forEach((raw, index) => {
+    const result = normalizeDoctor(raw);
+    const rawId = isObject(raw) && raw.id != null ? String(raw.id) : null;
+
+    if (result.issues) {
+      rejected.push({ index, id: rawId, issues: result.issues });
+    } else if (seen.has(result.doctor.id)) {
+      rejected.push({ index, id: rawId, issues: ["duplicate id"] });
+    } else {
+      seen.add(result.doctor.id);
+      doctors.push(result.doctor);
+    }
+  });
+
+  return { doctors, rejected };
+}
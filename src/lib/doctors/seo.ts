@@ -0,0 +1,133 @@
+import { defaultLocale, localePath, type Locale } from "@/lib/i18n/config";
+import { absoluteUrl } from "@/lib/site";
+import type { Doctor } from "./types";
+
+// "Ear, Nose & Throat (ENT) Specialist" -> "ear-nose-throat-ent-specialist"
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function doctorPath(id: string): string {
+  return `/doctors/${encodeURIComponent(id)}`;
+}
+
+export function specialityPath(speciality: string, city?: string): string {
+  const path = `/doctors/${slugify(speciality)}`;
+  return city ? `${path}/${slugify(city)}` : path;
+}
+
+// One listing page per speciality, plus one per city that speciality is offered in
+export interface ListingPage {
+  speciality: string;
+  city?: string;
+  count: number;
+}
+
+export function listingPages(doctors: Doctor[]): ListingPage[] {
+  const pages = new Map<string, ListingPage>();
+
+  const add = (speciality: string, city?: string) => {
+    const path = specialityPath(speciality, city);
+    const page = pages.get(path) ?? { speciality, city, count: 0 };
+    page.count += 1;
+    pages.set(path, page);
+  };
+
+  doctors.forEach((doctor) =>
+    doctor.specialities.forEach(({ name }) => {
+      add(name);
+      if (doctor.clinic.address.city) {
+        add(name, doctor.clinic.address.city);
+      }
+    })
+  );
+
+  return Array.from(pages.values());
+}
+
+export function findSpeciality(
+  doctors: Doctor[],
+  slug: string
+): string | undefined {
+  for (const doctor of doctors) {
+    const match = doctor.specialities.find(
+      ({ name }) => slugify(name) === slug
+    );
+    if (match) return match.name;
+  }
+}
+
+export function findCity(doctors: Doctor[], slug: string): string | undefined {
+  return doctors.find(({ clinic }) => slugify(clinic.address.city) === slug)
+    ?.clinic.address.city;
+}
+
+export function doctorsIn(
+  doctors: Doctor[],
+  speciality: string,
+  city?: string
+): Doctor[] {
+  return doctors.filter(
+    (doctor) =>
+      doctor.specialities.some(({ name }) => name === speciality) &&
+      (!city || doctor.clinic.address.city === city)
+  );
+}
+
+// schema.org Physician description of a doctor card, linking to the profile
+// in the page's language
+export function physicianJsonLd(
+  doctor: Doctor,
+  locale: Locale = defaultLocale
+) {
+  const { address } = doctor.clinic;
+  const url = absoluteUrl(localePath(locale, doctorPath(doctor.id)));
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Physician",
+    "@id": url,
+    url,
+    name: doctor.name,
+    description: doctor.doctor_introduction,
+    image: doctor.photo,
+    medicalSpecialty: doctor.specialities.map(({ name }) => name),
+    knowsLanguage: doctor.languages,
+    priceRange: `${doctor.fees.currency} ${doctor.fees.amount}`,
+    currenciesAccepted: doctor.fees.currency,
+    address: {
+      "@type": "PostalAddress",
+      streetAddress: address.address_line1,
+      addressLocality: address.locality,
+      addressRegion: address.city,
+      addressCountry: "IN",
+    },
+    ...(doctor.coordinates
+      ? {
+          geo: {
+            "@type": "GeoCoordinates",
+            latitude: doctor.coordinates.lat,
+            longitude: doctor.coordinates.lng,
+          },
+        }
+      : {}),
+    ...(doctor.clinic.name
+      ? {
+          hospitalAffiliation: {
+            "@type": "MedicalClinic",
+            name: doctor.clinic.name,
+          },
+        }
+      : {}),
+  };
+}
+
+// JSON for a <script type="application/ld+json">, safe to inline in HTML
+export function serializeJsonLd(data: object): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
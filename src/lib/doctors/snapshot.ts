@@ -0,0 +1,28 @@
+import type { Doctor } from "./types";
+
+// Just enough of a doctor to list them from browser storage without
+// fetching the roster (shortlist, recently viewed)
+export interface DoctorSnapshot {
+  id: string;
+  name: string;
+  specialities: string[];
+}
+
+export function snapshotDoctor(doctor: Doctor): DoctorSnapshot {
+  return {
+    id: doctor.id,
+    name: doctor.name,
+    specialities: doctor.specialities.map(({ name }) => name),
+  };
+}
+
+// Stored snapshots that still have the expected shape
+export function parseSnapshots(value: unknown): DoctorSnapshot[] | null {
+  if (!Array.isArray(value)) return null;
+  return value.filter(
+    (entry): entry is DoctorSnapshot =>
+      typeof entry?.id === "string" &&
+      typeof entry?.name === "string" &&
+      Array.isArray(entry?.specialities)
+  );
+}
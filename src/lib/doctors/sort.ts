@@ -0,0 +1,102 @@
+import type { RatingSummary } from "@/lib/reviews/types";
+import type { Doctor, SortBy, SortDirection } from "./types";
+
+// Direction used when a key is picked without one: the order people
+// usually want first (cheapest, most experienced, nearest, ...)
+export const defaultDirection: Record<SortBy, SortDirection> = {
+  relevance: "desc",
+  fees: "asc",
+  experience: "desc",
+  name: "asc",
+  languages: "desc",
+  distance: "asc",
+  rating: "desc",
+};
+
+// Per-query values some keys sort on
+export interface SortContext {
+  // Search score per doctor id
+  relevance: Record<string, number>;
+  // Kilometres from the chosen place per doctor id
+  distances: Record<string, number>;
+  // Approved review ratings per doctor id
+  ratings: Record<string, RatingSummary>;
+}
+
+type Compare = (a: Doctor, b: Doctor) => number;
+
+const collator = new Intl.Collator("en", { sensitivity: "base" });
+
+// "Dr. Ananya Rao" sorts under A
+const sortName = (doctor: Doctor) => doctor.name.replace(/^dr\.?\s+/i, "");
+
+// Ascending comparators for each key
+function ascending(by: SortBy, context: SortContext): Compare {
+  switch (by) {
+    case "relevance":
+      return (a, b) =>
+        (context.relevance[a.id] ?? 0) - (context.relevance[b.id] ?? 0);
+    case "fees":
+      return (a, b) => a.fees.amount - b.fees.amount;
+    case "experience":
+      return (a, b) => a.experienceYears - b.experienceYears;
+    case "name":
+      return (a, b) => collator.compare(sortName(a), sortName(b));
+    case "languages":
+      return (a, b) => a.languages.length - b.languages.length;
+    case "distance":
+      return (a, b) =>
+        (context.distances[a.id] ?? Infinity) -
+        (context.distances[b.id] ?? Infinity);
+    // Equal averages: the one more patients agree on ranks higher
+    case "rating":
+      return (a, b) =>
+        (context.ratings[a.id]?.average ?? 0) -
+          (context.ratings[b.id]?.average ?? 0) ||
+        (context.ratings[a.id]?.count ?? 0) -
+          (context.ratings[b.id]?.count ?? 0);
+  }
+}
+
+// Keys that settle ties after the chosen one, in their default direction
+const tieBreakers: SortBy[] = ["relevance", "experience", "fees", "name"];
+
+// Sort by one key, then the tie-breakers, then id, so equal values always
+// come back in the same order. Doctors with no known location, or no reviews
+// when sorting by rating, go last either way.
+export function sortDoctors(
+  doctors: Doctor[],
+  by: SortBy,
+  direction: SortDirection,
+  context: SortContext
+): Doctor[] {
+  const keys: [SortBy, SortDirection][] = [
+    [by, direction],
+    ...tieBreakers
+      .filter((key) => key !== by)
+      .map((key): [SortBy, SortDirection] => [key, defaultDirection[key]]),
+  ];
+  const compares = keys.map(([key, dir]) => {
+    const compare = ascending(key, context);
+    return dir === "asc" ? compare : (a: Doctor, b: Doctor) => compare(b, a);
+  });
+
+  return [...doctors].sort((a, b) => {
+    if (by === "distance") {
+      const unplaced =
+        Number(!(a.id in context.distances)) -
+        Number(!(b.id in context.distances));
+      if (unplaced !== 0) return unplaced;
+    }
+    if (by === "rating") {
+      const unrated =
+        Number(!(a.id in context.ratings)) - Number(!(b.id in context.ratings));
+      if (unrated !== 0) return unrated;
+    }
+    for (const compare of compares) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return a.id.localeCompare(b.id);
+  });
+}
@@ -0,0 +1,146 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import fixture from "@/data/doctors.json";
+import { dataDir } from "@/lib/store/json-store";
+import { normalizeDoctors, type NormalizeResult } from "./schema";
+import type { Doctor } from "./types";
+
+// A place the doctor roster can be loaded from. Sources return raw JSON,
+// validation happens in loadRoster.
+export interface DoctorSource {
+  name: string;
+  load(): Promise<unknown>;
+}
+
+// Roster bundled with the app, works offline
+export function fixtureSource(): DoctorSource {
+  return {
+    name: "fixture",
+    load: async () => fixture,
+  };
+}
+
+// Roster served as JSON over HTTP, e.g. the campus mock API
+export function remoteSource(url: string): DoctorSource {
+  return {
+    name: `remote:${url}`,
+    load: async () => {
+      const response = await fetch(url, { next: { revalidate: 300 } });
+
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch doctors from ${url}: ${response.status}`
+        );
+      }
+
+      return response.json();
+    },
+  };
+}
+
+// Roster stored as a JSON file on disk, relative paths resolve from the project root
+export function fileSource(filePath: string): DoctorSource {
+  const resolved = path.resolve(process.cwd(), filePath);
+  return {
+    name: `file:${resolved}`,
+    load: async () => JSON.parse(await readFile(resolved, "utf8")),
+  };
+}
+
+// Roster managed in /admin, saved under DATA_DIR
+export const rosterFileName = "doctors.json";
+
+export function rosterPath(): string {
+  return path.join(dataDir(), rosterFileName);
+}
+
+// The admin's saved roster, or `seed` until the first change is saved
+export function storeSource(seed: DoctorSource): DoctorSource {
+  const saved = fileSource(rosterPath());
+  return {
+    name: `store:${rosterPath()}`,
+    load: async () => {
+      try {
+        return await saved.load();
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+          return seed.load();
+        }
+        throw err;
+      }
+    },
+  };
+}
+
+// Pick the source from the environment:
+//   DOCTORS_SOURCE=fixture (default) | remote | file
+//   DOCTORS_REMOTE_URL for remote, DOCTORS_FILE for file
+export function configuredSource(): DoctorSource {
+  const kind = process.env.DOCTORS_SOURCE ?? "fixture";
+
+  switch (kind) {
+    case "fixture":
+      return fixtureSource();
+    case "remote": {
+      const url = process.env.DOCTORS_REMOTE_URL;
+      if (!url) {
+        throw new Error(
+          "DOCTORS_REMOTE_URL must be set when DOCTORS_SOURCE=remote"
+        );
+      }
+      return remoteSource(url);
+    }
+    case "file": {
+      const filePath = process.env.DOCTORS_FILE;
+      if (!filePath) {
+        throw new Error("DOCTORS_FILE must be set when DOCTORS_SOURCE=file");
+      }
+      return fileSource(filePath);
+    }
+    default:
+      throw new Error(`Unknown DOCTORS_SOURCE "${kind}"`);
+  }
+}
+
+// Where the app reads doctors from: edits made in /admin, falling back to
+// the configured source
+export function getDoctorSource(): DoctorSource {
+  return storeSource(configuredSource());
+}
+
+// Validated rosters by the raw data they came from. Sources that hand back the
+// same data (the fixture) keep the same Doctor[], so anything derived from it,
+// like the search index, is only built once.
+const rosters = new WeakMap<unknown[], NormalizeResult>();
+
+// Load and validate the roster. Invalid records are logged and left out so one
+// bad entry can't take down the listing.
+export async function loadRoster(
+  source: DoctorSource = getDoctorSource()
+): Promise<NormalizeResult> {
+  const data = await source.load();
+
+  if (!Array.isArray(data)) {
+    throw new Error(`Doctor source ${source.name} did not return a list`);
+  }
+
+  const cached = rosters.get(data);
+  if (cached) return cached;
+
+  const result = normalizeDoctors(data);
+  rosters.set(data, result);
+
+  result.rejected.forEach((record) =>
+    console.warn(
+      `Skipping doctor #${record.index} (id ${record.id ?? "unknown"}) from ${source.name}: ${record.issues.join("; ")}`
+    )
+  );
+
+  return result;
+}
+
+export async function loadDoctors(
+  source: DoctorSource = getDoctorSource()
+): Promise<Doctor[]> {
+  return (await loadRoster(source)).doctors;
+}
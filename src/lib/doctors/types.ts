@@ -0,0 +1,166 @@
+import type { AvailabilitySummary } from "@/lib/booking/types";
+import type { LatLng } from "@/lib/geo/coordinates";
+import type { Place } from "@/lib/geo/places";
+import type { RatingSummary } from "@/lib/reviews/types";
+
+// Record as it comes from a data source, before validation
+export interface RawDoctor {
+  id: string;
+  name: string;
+  photo?: string;
+  doctor_introduction?: string;
+  specialities: { name: string }[];
+  fees: string;
+  experience: string;
+  languages: string[];
+  clinic: {
+    name: string;
+    address: {
+      locality: string;
+      city: string;
+      address_line1: string;
+      location: string;
+      logo_url?: string;
+    };
+  };
+  video_consult: boolean;
+  in_clinic: boolean;
+}
+
+export interface Money {
+  amount: number;
+  currency: string; // ISO 4217 code, e.g. "INR"
+}
+
+// Validated doctor used everywhere past the data source layer
+export interface Doctor {
+  id: string;
+  name: string;
+  photo?: string;
+  doctor_introduction?: string;
+  specialities: { name: string }[];
+  fees: Money;
+  experienceYears: number;
+  languages: string[];
+  clinic: RawDoctor["clinic"];
+  // Id of the clinic's own page, missing when the clinic has no name
+  clinicId?: string;
+  // Parsed from clinic.address.location when it holds a usable pair
+  coordinates?: LatLng;
+  video_consult: boolean;
+  in_clinic: boolean;
+}
+
+// A clinic with the doctors practising there, gathered from the roster
+export interface Clinic {
+  id: string;
+  name: string;
+  address: RawDoctor["clinic"]["address"];
+  coordinates?: LatLng;
+  doctorIds: string[];
+  // Specialities offered by its doctors
+  specialities: string[];
+}
+
+export type ConsultType = "video" | "clinic";
+
+export type SortBy =
+  | "relevance"
+  | "fees"
+  | "experience"
+  | "name"
+  | "languages"
+  | "distance"
+  | "rating";
+
+export type SortDirection = "asc" | "desc";
+
+// Whether a doctor needs any or all of the selected specialties
+export type SpecialtyMatch = "any" | "all";
+
+// Filters accepted by the doctors API and applied by the listing page
+export interface DoctorQuery {
+  search: string;
+  consultType: ConsultType | null;
+  specialties: string[];
+  specialtyMatch: SpecialtyMatch;
+  languages: string[];
+  cities: string[];
+  localities: string[];
+  // Clinic ids
+  clinics: string[];
+  // Inclusive bounds; null leaves that side open
+  minFee: number | null;
+  maxFee: number | null;
+  minExperience: number | null;
+  maxExperience: number | null;
+  // Lowest average rating to show; doctors without reviews are left out
+  minRating: number | null;
+  // Coordinates ("lat,lng") or a locality / city name to measure from
+  near: string | null;
+  radiusKm: number | null;
+  sortBy: SortBy | null;
+  // Null uses the key's natural direction (e.g. fees low to high)
+  sortDir: SortDirection | null;
+  // 1-based page of results and doctors per page
+  page: number;
+  pageSize: number;
+}
+
+export type FacetKey =
+  | "consultType"
+  | "specialties"
+  | "languages"
+  | "cities"
+  | "localities"
+  | "clinics"
+  | "feeBands"
+  | "ratings";
+
+// Result count per option of each facet, given the other active filters
+export type FacetCounts = Record<FacetKey, Record<string, number>>;
+
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+export interface ClinicOption {
+  id: string;
+  name: string;
+  city: string;
+}
+
+// Choices offered by the filter sidebar, taken from the whole roster
+export interface FilterOptions {
+  languages: string[];
+  cities: string[];
+  // Localities grouped by city
+  localities: Record<string, string[]>;
+  clinics: ClinicOption[];
+  fees: NumberRange;
+  feeCurrency: string;
+  experience: NumberRange;
+}
+
+// Shape returned by GET /api/doctors
+export interface DoctorsResponse {
+  // The requested page of matches
+  doctors: Doctor[];
+  total: number;
+  // Page actually returned, clamped to the last page
+  page: number;
+  pageSize: number;
+  specialties: string[];
+  options: FilterOptions;
+  facets: FacetCounts;
+  // Where "near" resolved to, null when unset or unknown
+  origin: Place | null;
+  // Kilometres from the origin per doctor id
+  distances: Record<string, number>;
+  availability: Record<string, AvailabilitySummary>;
+  // Approved review ratings per doctor id, for doctors that have any
+  ratings: Record<string, RatingSummary>;
+  // Matched search terms per doctor id, for highlighting
+  highlights: Record<string, string[]>;
+}
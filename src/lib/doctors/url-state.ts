@@ -0,0 +1,197 @@
+import { defaultDirection } from "./sort";
+import type { ConsultType, DoctorQuery, SortBy, SortDirection } from "./types";
+
+// Filter state <-> query string, shared by the listing page URL and
+// /api/doctors. Specialties are repeated params (?specialties=A&specialties=B)
+// so names containing commas or slashes survive the round trip. Defaults
+// (e.g. specialtyMatch=any) are left out to keep URLs short. Languages, cities,
+// localities and clinic ids are repeated params the same way.
+
+export const emptyQuery: DoctorQuery = {
+  search: "",
+  consultType: null,
+  specialties: [],
+  specialtyMatch: "any",
+  languages: [],
+  cities: [],
+  localities: [],
+  clinics: [],
+  minFee: null,
+  maxFee: null,
+  minExperience: null,
+  maxExperience: null,
+  minRating: null,
+  near: null,
+  radiusKm: null,
+  sortBy: null,
+  sortDir: null,
+  page: 1,
+  pageSize: 20,
+};
+
+export const pageSizes = [10, 20, 50];
+
+const listParams = ["languages", "cities", "localities", "clinics"] as const;
+const boundParams = [
+  "minFee",
+  "maxFee",
+  "minExperience",
+  "maxExperience",
+  "minRating",
+  "radiusKm",
+] as const;
+
+const consultTypes: ConsultType[] = ["video", "clinic"];
+const sortOptions = Object.keys(defaultDirection) as SortBy[];
+const sortDirections: SortDirection[] = ["asc", "desc"];
+
+export function encodeQuery(query: DoctorQuery): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (query.search) {
+    params.set("search", query.search);
+  }
+
+  if (query.consultType) {
+    params.set("consultType", query.consultType);
+  }
+
+  query.specialties.forEach((specialty) =>
+    params.append("specialties", specialty)
+  );
+
+  if (query.specialtyMatch === "all") {
+    params.set("specialtyMatch", "all");
+  }
+
+  listParams.forEach((key) =>
+    query[key].forEach((value) => params.append(key, value))
+  );
+
+  if (query.near) {
+    params.set("near", query.near);
+  }
+
+  boundParams.forEach((key) => {
+    const value = query[key];
+    if (value !== null) {
+      params.set(key, String(value));
+    }
+  });
+
+  if (query.sortBy) {
+    params.set("sortBy", query.sortBy);
+    // Only spell out the direction when it isn't the key's default
+    if (query.sortDir && query.sortDir !== defaultDirection[query.sortBy]) {
+      params.set("sortDir", query.sortDir);
+    }
+  }
+
+  if (query.page > 1) {
+    params.set("page", String(query.page));
+  }
+
+  if (query.pageSize !== emptyQuery.pageSize) {
+    params.set("pageSize", String(query.pageSize));
+  }
+
+  return params;
+}
+
+// Read the filters back. Unknown consult types and sort options are dropped,
+// as are negative or non-numeric range bounds and page sizes we don't offer.
+// When the known specialties are given, unknown names are dropped too and the
+// old comma-joined form (?specialties=A,B) is split where that yields known names.
+export function decodeQuery(
+  params: URLSearchParams,
+  knownSpecialties?: string[]
+): DoctorQuery {
+  const consultType = params.get("consultType");
+  const sortBy = sortOptions.includes(params.get("sortBy") as SortBy)
+    ? (params.get("sortBy") as SortBy)
+    : null;
+  const sortDir = params.get("sortDir") as SortDirection;
+
+  let specialties = params
+    .getAll("specialties")
+    .map((specialty) => specialty.trim())
+    .filter(Boolean);
+
+  if (knownSpecialties) {
+    const known = new Set(knownSpecialties);
+    specialties = specialties.flatMap((specialty) => {
+      if (known.has(specialty)) return [specialty];
+      const parts = specialty.split(",").map((part) => part.trim());
+      return parts.every((part) => known.has(part)) ? parts : [];
+    });
+  }
+
+  return {
+    search: params.get("search")?.trim() ?? "",
+    consultType: consultTypes.includes(consultType as ConsultType)
+      ? (consultType as ConsultType)
+      : null,
+    specialties: Array.from(new Set(specialties)),
+    specialtyMatch: params.get("specialtyMatch") === "all" ? "all" : "any",
+    languages: readList(params, "languages"),
+    cities: readList(params, "cities"),
+    localities: readList(params, "localities"),
+    clinics: readList(params, "clinics"),
+    ...readRange(params, "minFee", "maxFee"),
+    ...readRange(params, "minExperience", "maxExperience"),
+    minRating: readBound(params.get("minRating")) || null,
+    near: params.get("near")?.trim() || null,
+    radiusKm: readBound(params.get("radiusKm")) || null,
+    sortBy,
+    sortDir: sortBy && sortDirections.includes(sortDir) ? sortDir : null,
+    page: Math.max(1, Math.floor(readBound(params.get("page")) ?? 1)),
+    pageSize: pageSizes.includes(Number(params.get("pageSize")))
+      ? Number(params.get("pageSize"))
+      : emptyQuery.pageSize,
+  };
+}
+
+function readList(params: URLSearchParams, key: string): string[] {
+  const values = params
+    .getAll(key)
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return Array.from(new Set(values));
+}
+
+function readBound(value: string | null): number | null {
+  const number = Number(value);
+  return value && Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+// A reversed range is read as its swapped form
+function readRange<Min extends string, Max extends string>(
+  params: URLSearchParams,
+  minKey: Min,
+  maxKey: Max
+) {
+  let min = readBound(params.get(minKey));
+  let max = readBound(params.get(maxKey));
+  if (min !== null && max !== null && min > max) {
+    [min, max] = [max, min];
+  }
+  return { [minKey]: min, [maxKey]: max } as Record<Min | Max, number | null>;
+}
+
+// The same filters with lists in a fixed order, so equal views always
+// encode to the same (shareable) URL
+export function canonicalQuery(query: DoctorQuery): DoctorQuery {
+  const sorted = (values: string[]) => [...values].sort();
+  return {
+    ...query,
+    specialties: sorted(query.specialties),
+    languages: sorted(query.languages),
+    cities: sorted(query.cities),
+    localities: sorted(query.localities),
+    clinics: sorted(query.clinics),
+  };
+}
+
+export function isSameQuery(a: DoctorQuery, b: DoctorQuery): boolean {
+  return encodeQuery(a).toString() === encodeQuery(b).toString();
+}
@@ -0,0 +1,72 @@
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// Rough bounding box for India, used to tell "lng,lat" from "lat,lng"
+const india = { lat: [6, 38], lng: [68, 98] } as const;
+
+const within = (value: number, [min, max]: readonly [number, number]) =>
+  value >= min && value <= max;
+
+// "77.5838,12.9279" or "12.9279,77.5838" -> { lat: 12.9279, lng: 77.5838 }.
+// Sources disagree on the order, so a pair that only makes sense one way
+// round (for India) is read that way; otherwise lat,lng is assumed.
+export function parseLocation(value: unknown): LatLng | null {
+  if (typeof value !== "string") return null;
+
+  const parts = value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+  if (parts.length !== 2 || parts.some((part) => !Number.isFinite(part))) {
+    return null;
+  }
+
+  const [first, second] = parts;
+  if (within(first, india.lng) && within(second, india.lat)) {
+    return { lat: second, lng: first };
+  }
+  if (Math.abs(first) <= 90 && Math.abs(second) <= 180) {
+    return { lat: first, lng: second };
+  }
+  return null;
+}
+
+// "12.928,77.584", rounded to about 100 m
+export function formatLatLng({ lat, lng }: LatLng, digits = 3): string {
+  return `${lat.toFixed(digits)},${lng.toFixed(digits)}`;
+}
+
+const earthRadiusKm = 6371;
+
+// Great-circle (haversine) distance in kilometres
+export function distanceKm(a: LatLng, b: LatLng): number {
+  const rad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * earthRadiusKm * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// "Under 100 m away", "400 m away", "3.2 km away", "18 km away"
+export function formatDistance(
+  km: number,
+  locale: Locale = defaultLocale
+): string {
+  const { t } = getI18n(locale);
+  if (km < 0.1) {
+    return t("format.distanceUnder");
+  }
+  if (km < 1) {
+    return t("format.distanceMetres", { metres: Math.round(km * 10) * 100 });
+  }
+  return t("format.distanceKm", {
+    km: km < 10 ? km.toFixed(1) : Math.round(km),
+  });
+}
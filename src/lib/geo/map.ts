@@ -0,0 +1,154 @@
+import type { Doctor } from "@/lib/doctors/types";
+import type { LatLng } from "./coordinates";
+
+// Slippy-map tiles, e.g. "https://tile.openstreetmap.org/{z}/{x}/{y}.png" or a
+// local tile server. Without one the map draws a plain SVG background, which
+// needs no network at all.
+export const mapTiles = {
+  url: process.env.NEXT_PUBLIC_MAP_TILE_URL || null,
+  attribution: process.env.NEXT_PUBLIC_MAP_ATTRIBUTION || null,
+};
+
+export const tileSize = 256;
+export const minZoom = 3;
+export const maxZoom = 17;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Web Mercator: position in pixels on the whole world map at `zoom`
+export function project({ lat, lng }: LatLng, zoom: number): Point {
+  const size = tileSize * 2 ** zoom;
+  const sin = Math.sin((Math.max(-85, Math.min(85, lat)) * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+}
+
+export function unproject({ x, y }: Point, zoom: number): LatLng {
+  const size = tileSize * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (x / size) * 360 - 180,
+  };
+}
+
+export interface MapView {
+  center: LatLng;
+  zoom: number;
+}
+
+// Closest zoom at which every point fits in a width x height box
+export function fitView(
+  points: LatLng[],
+  width: number,
+  height: number,
+  padding = 40
+): MapView {
+  if (points.length === 0) {
+    // All of India
+    return { center: { lat: 22, lng: 79 }, zoom: 4 };
+  }
+
+  const lats = points.map((p) => p.lat);
+  const lngs = points.map((p) => p.lng);
+  const south = Math.min(...lats);
+  const north = Math.max(...lats);
+  const west = Math.min(...lngs);
+  const east = Math.max(...lngs);
+
+  const corners = (zoom: number) => ({
+    sw: project({ lat: south, lng: west }, zoom),
+    ne: project({ lat: north, lng: east }, zoom),
+  });
+
+  let zoom = maxZoom - 2;
+  while (zoom > minZoom) {
+    const { sw, ne } = corners(zoom);
+    if (
+      ne.x - sw.x <= width - padding * 2 &&
+      sw.y - ne.y <= height - padding * 2
+    ) {
+      break;
+    }
+    zoom--;
+  }
+
+  const { sw, ne } = corners(zoom);
+  return {
+    center: unproject({ x: (sw.x + ne.x) / 2, y: (sw.y + ne.y) / 2 }, zoom),
+    zoom,
+  };
+}
+
+// Doctors practising at one clinic, plotted as a single pin
+export interface ClinicPin {
+  key: string;
+  name: string;
+  coordinates: LatLng;
+  doctors: Doctor[];
+}
+
+export function clinicPins(doctors: Doctor[]): ClinicPin[] {
+  const pins = new Map<string, ClinicPin>();
+  doctors.forEach((doctor) => {
+    if (!doctor.coordinates) return;
+    const { lat, lng } = doctor.coordinates;
+    const key = `${doctor.clinic.name}@${lat},${lng}`;
+    const pin = pins.get(key);
+    if (pin) {
+      pin.doctors.push(doctor);
+    } else {
+      pins.set(key, {
+        key,
+        name: doctor.clinic.name,
+        coordinates: doctor.coordinates,
+        doctors: [doctor],
+      });
+    }
+  });
+  return Array.from(pins.values());
+}
+
+// Pins that would overlap on screen, drawn as one marker
+export interface PinCluster {
+  key: string;
+  position: Point;
+  pins: ClinicPin[];
+}
+
+// Greedy clustering in screen space: each pin joins the first cluster
+// within `radius` pixels of it, or starts a new one
+export function clusterPins(
+  pins: ClinicPin[],
+  zoom: number,
+  radius = 28
+): PinCluster[] {
+  const clusters: PinCluster[] = [];
+  pins.forEach((pin) => {
+    const position = project(pin.coordinates, zoom);
+    const cluster = clusters.find(
+      (c) =>
+        Math.hypot(c.position.x - position.x, c.position.y - position.y) <
+        radius
+    );
+    if (cluster) {
+      cluster.pins.push(pin);
+    } else {
+      clusters.push({ key: pin.key, position, pins: [pin] });
+    }
+  });
+  return clusters;
+}
+
+// "https://…/{z}/{x}/{y}.png" with the tile's coordinates filled in
+export function tileUrl(template: string, x: number, y: number, z: number) {
+  return template
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+}
@@ -0,0 +1,58 @@
+import type { Doctor } from "@/lib/doctors/types";
+import { parseLocation, type LatLng } from "./coordinates";
+
+// A point to measure distances from
+export interface Place {
+  // Left out for coordinates from the browser, shown as "your location"
+  name?: string;
+  coordinates: LatLng;
+}
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+function centroid(points: LatLng[]): LatLng {
+  return {
+    lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+    lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length,
+  };
+}
+
+// Turn a "near" value into coordinates without any geocoding service:
+// either literal coordinates (from the browser) or a locality / city name,
+// placed at the middle of the clinics we know there. "Locality, City"
+// narrows an ambiguous locality to one city.
+export function resolvePlace(doctors: Doctor[], near: string): Place | null {
+  const coordinates = parseLocation(near);
+  if (coordinates) {
+    return { coordinates };
+  }
+
+  const [locality, city] = near.split(",").map(normalize);
+  if (!locality) return null;
+
+  const located = doctors.filter((doctor) => doctor.coordinates);
+  const inCity = (doctor: Doctor) =>
+    !city || normalize(doctor.clinic.address.city) === city;
+
+  const byLocality = located.filter(
+    (doctor) =>
+      normalize(doctor.clinic.address.locality) === locality && inCity(doctor)
+  );
+  const matches =
+    byLocality.length > 0
+      ? byLocality
+      : located.filter(
+          (doctor) =>
+            !city && normalize(doctor.clinic.address.city) === locality
+        );
+  if (matches.length === 0) return null;
+
+  const { address } = matches[0].clinic;
+  return {
+    name:
+      byLocality.length > 0
+        ? `${address.locality}, ${address.city}`
+        : address.city,
+    coordinates: centroid(matches.map((doctor) => doctor.coordinates!)),
+  };
+}
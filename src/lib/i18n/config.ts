@@ -0,0 +1,71 @@
+// Languages the public pages are offered in. Every page under /<locale>/
+// renders in that language; unprefixed URLs redirect to the visitor's choice.
+export const locales = ["en", "hi"] as const;
+
+export type Locale = (typeof locales)[number];
+
+export const defaultLocale: Locale = "en";
+
+// Remembers the language last picked with the switcher
+export const localeCookie = "locale";
+
+// Tags passed to Intl: Indian English groups digits in lakhs and crores
+export const intlLocales: Record<Locale, string> = {
+  en: "en-IN",
+  hi: "hi-IN",
+};
+
+// Each language named in itself, for the switcher
+export const localeNames: Record<Locale, string> = {
+  en: "English",
+  hi: "हिन्दी",
+};
+
+export function isLocale(value: string | null | undefined): value is Locale {
+  return locales.includes(value as Locale);
+}
+
+// "/doctors/dentist" -> "/hi/doctors/dentist"; "/" -> "/hi"
+export function localePath(locale: Locale, path: string): string {
+  return path === "/" ? `/${locale}` : `/${locale}${path}`;
+}
+
+// The path without its locale prefix, e.g. for linking to the same page in
+// another language
+export function stripLocale(pathname: string): string {
+  const [, first, ...rest] = pathname.split("/");
+  return isLocale(first) ? `/${rest.join("/")}` : pathname;
+}
+
+// Best supported match for an Accept-Language header, e.g.
+// "hi-IN,hi;q=0.9,en;q=0.8" -> "hi"
+export function negotiateLocale(acceptLanguage: string | null): Locale {
+  const ranked = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, ...options] = part.trim().split(";");
+      const q = options.find((option) => option.trim().startsWith("q="));
+      return {
+        language: tag.split("-")[0].toLowerCase(),
+        quality: q ? Number(q.trim().slice(2)) : 1,
+      };
+    })
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  const match = ranked.find(({ language }) => isLocale(language));
+  return match ? (match.language as Locale) : defaultLocale;
+}
+
+// Canonical and hreflang links for one page in every language
+export function localeAlternates(locale: Locale, path: string) {
+  return {
+    canonical: localePath(locale, path),
+    languages: {
+      ...Object.fromEntries(
+        locales.map((other) => [intlLocales[other], localePath(other, path)])
+      ),
+      "x-default": localePath(defaultLocale, path),
+    },
+  };
+}
@@ -0,0 +1,354 @@
+// English UI strings; every other catalog has the same keys. {name}
+// placeholders are filled in by t(), and entries split into one/other are
+// picked by the plural category of their {count}.
+export const en = {
+  meta: {
+    title: "Find Doctors",
+    description: "Find and book the best doctors, clinics & hospitals near you",
+    homeTitle: "Find Doctors | Book Appointment Online",
+    homeDescription: "Find and book the best doctors near you",
+  },
+  nav: {
+    skipToContent: "Skip to main content",
+    skipToResults: "Skip to results",
+    searchAll: "Search all doctors",
+    clinics: "Clinics",
+    language: "Language",
+  },
+  common: {
+    loading: "Loading...",
+    clear: "Clear",
+    close: "Close",
+    breadcrumb: "Breadcrumb",
+    doctors: "Doctors",
+    videoConsult: "Video Consult",
+    inClinic: "In Clinic",
+    rated: "Rated",
+    none: "—",
+  },
+  counts: {
+    doctors: { one: "{count} doctor", other: "{count} doctors" },
+    clinics: { one: "{count} clinic", other: "{count} clinics" },
+    cities: { one: "{count} city", other: "{count} cities" },
+    reviews: { one: "{count} review", other: "{count} reviews" },
+    slots: { one: "{count} slot", other: "{count} slots" },
+    stars: { one: "{count} star", other: "{count} stars" },
+  },
+  format: {
+    experience: {
+      one: "{count} Year of experience",
+      other: "{count} Years of experience",
+    },
+    experienceShort: "{count} yrs",
+    rating: "{average} ({reviews})",
+    distanceUnder: "Under 100 m away",
+    distanceMetres: "{metres} m away",
+    distanceKm: "{km} km away",
+    today: "Today",
+    tomorrow: "Tomorrow",
+    slot: "{day}, {time}",
+  },
+  home: {
+    heading: "Find Doctors",
+    searchLabel: "Search doctors",
+    searchPlaceholder: "Search doctors, specialities, clinics...",
+    filters: "Filters",
+  },
+  search: {
+    suggestions: "{label} suggestions",
+    clearRecent: "Clear recent searches",
+    groups: {
+      recent: "Recent searches",
+      doctor: "Doctors",
+      speciality: "Specialities",
+      clinic: "Clinics",
+      locality: "Localities",
+    },
+  },
+  filters: {
+    heading: "Filters",
+    clearAll: "Clear All",
+    close: "Close filters",
+    consultMode: "Consultation Mode",
+    anyMode: "Any",
+    speciality: "Speciality",
+    searchSpecialities: "Search specialities",
+    matchSpecialities: "Match specialities",
+    matchAny: "Any of",
+    matchAll: "All of",
+    selectAll: "Select all",
+    selectVisible: "Select all visible",
+    noSpecialities: 'No specialities match "{filter}"',
+    language: "Language",
+    fees: "Fees",
+    feeUnder: "Under {max}",
+    feeBetween: "{min}–{max}",
+    feeOver: "{min} and above",
+    experience: "Experience",
+    minimum: "Minimum {title}",
+    maximum: "Maximum {title}",
+    rating: "Patient Rating",
+    anyRating: "Any rating",
+    ratingAtLeast: "{rating}★ & up",
+    city: "City",
+    locality: "Locality",
+    clinic: "Clinic",
+    sortBy: "Sort By",
+    sortRecommended: "Recommended",
+    sortFees: "Fees (Low to High)",
+    sortExperience: "Experience (High to Low)",
+    sortRating: "Highest rated",
+    sortDistance: "Nearest first",
+  },
+  location: {
+    heading: "Location",
+    placeholder: "Locality or city",
+    go: "Go",
+    useCurrent: "Use my current location",
+    unsupported: "Your browser can't share its location",
+    finding: "Finding your location…",
+    denied: "Location permission was denied, type a locality instead",
+    failed: "Couldn't get your location, type a locality instead",
+    near: "Near {place}",
+    yourLocation: "your location",
+    notFound: 'Couldn\'t find "{place}"',
+    distance: "Distance",
+    anyDistance: "Any distance",
+    within: "Within {km} km",
+  },
+  savedSearches: {
+    heading: "Saved searches",
+    nameLabel: "Name for this search",
+    save: "Save",
+    saved: "Saved",
+    rename: "Rename",
+    renameNamed: "Rename {name}",
+    delete: "Delete",
+    deleteNamed: "Delete {name}",
+    allDoctors: "All doctors",
+  },
+  results: {
+    loading: "Loading doctors…",
+    failed: "Failed to load doctors data",
+    none: "No doctors found",
+    showing: {
+      one: "Showing {first}–{last} of {count} doctor",
+      other: "Showing {first}–{last} of {count} doctors",
+    },
+    showMap: "Show map",
+    hideMap: "Hide map",
+    noMatches: "No doctors found matching your criteria.",
+    clearFilters: "Clear Filters",
+    perPage: "Doctors per page",
+  },
+  sort: {
+    label: "Sort by",
+    default: "Default",
+    bestMatch: "Best match",
+    direction: "Sort direction: {direction}. Click to reverse",
+    keys: {
+      relevance: "Relevance",
+      fees: "Fees",
+      experience: "Experience",
+      name: "Name",
+      languages: "Languages spoken",
+      distance: "Distance",
+      rating: "Rating",
+    },
+    directions: {
+      relevance: { asc: "Weakest match first", desc: "Best match first" },
+      fees: { asc: "Low to high", desc: "High to low" },
+      experience: { asc: "Least first", desc: "Most first" },
+      name: { asc: "A to Z", desc: "Z to A" },
+      languages: { asc: "Fewest first", desc: "Most first" },
+      distance: { asc: "Nearest first", desc: "Farthest first" },
+      rating: { asc: "Lowest rated first", desc: "Highest rated first" },
+    },
+  },
+  pagination: {
+    label: "Pagination",
+    previous: "Previous",
+    next: "Next",
+  },
+  share: {
+    copyLink: "Copy link",
+    copied: "Link copied",
+    copyPrompt: "Copy this link",
+    qrCode: "QR code",
+    qrTitle: "Scan to open this search",
+    qrImage: "QR code for {url}",
+    printTitle: "Find doctors",
+    printCaption: "Scan to see these doctors",
+    print: "Print",
+    download: "Download",
+  },
+  map: {
+    zoomIn: "Zoom in",
+    zoomOut: "Zoom out",
+    clinic: "{name}: {doctors}",
+    cluster: "{clinics}, {doctors}. Zoom in",
+    unplaced: "{count} without a map location",
+  },
+  card: {
+    availableToday: "Available Today",
+    next: "Next: {slot}",
+    noSlots: "No slots this week",
+    viewProfile: "View Profile",
+    bookNow: "Book Now",
+  },
+  shortlist: {
+    open: "Shortlist",
+    title: "Your shortlist",
+    empty: "Tap the heart on a doctor to save them here.",
+    pickToCompare: "Tick up to {count} doctors to compare.",
+    compareNamed: "Compare {name}",
+    add: "Add to shortlist",
+    addNamed: "Add {name} to shortlist",
+    remove: "Remove",
+    removeFromShortlist: "Remove from shortlist",
+    removeNamed: "Remove {name} from shortlist",
+    clear: "Clear shortlist",
+    compare: "Compare {count}",
+    pickTwo: "Pick at least 2 to compare",
+  },
+  recent: {
+    heading: "Recently viewed",
+  },
+  booking: {
+    title: "Book an appointment",
+    offline: "This doctor isn't taking appointments online.",
+    confirmed: "Appointment confirmed",
+    withDoctor: "{mode} with {name}",
+    reference: "Booking reference: {reference}",
+    done: "Done",
+    mode: "Consultation mode",
+    continue: "Continue",
+    noSlots: "No open slots in the next 7 days.",
+    loadFailed: "Couldn't load available slots. Please try again.",
+    slotTaken: "This slot is no longer available",
+    failed: "Failed to book appointment",
+    failedRetry: "Failed to book appointment. Please try again.",
+    patientName: "Patient name",
+    phone: "Mobile number",
+    email: "Email (optional)",
+    age: "Age (optional)",
+    reason: "Reason for visit (optional)",
+    back: "Back",
+    booking: "Booking...",
+    confirm: "Confirm Booking",
+    errors: {
+      name: "Enter the patient's full name",
+      nameTooLong: "Name must be 80 characters or fewer",
+      phone: "Enter a valid 10-digit mobile number",
+      email: "Enter a valid email address",
+      age: "Enter an age between 0 and 120",
+      reason: "Keep the reason under 500 characters",
+    },
+  },
+  profile: {
+    experience: "Experience",
+    fee: "Consultation fee",
+    languages: "Languages",
+    notListed: "Not listed",
+    about: "About",
+    consultModes: "Consultation modes",
+    available: "available",
+    unavailable: "not available",
+    clinic: "Clinic",
+    logo: "{name} logo",
+    location: "Location: {location}",
+    clinicDoctors: "See all doctors at {name}",
+    reviews: "Patient reviews",
+    outOfFive: "{rating} out of 5 stars",
+    noReviews: "No reviews yet. Be the first to share your experience.",
+    nextAvailable: "Next available: {slot}",
+    noSlots: "No open slots in the next 7 days",
+    metaDescription: "{name}, {specialities} with {experience}.",
+  },
+  reviewForm: {
+    heading: "Review {name}",
+    rating: "Your rating",
+    name: "Your name",
+    text: "Your experience",
+    submit: "Submit review",
+    sending: "Sending...",
+    thanks:
+      "Thanks for your review! It will appear here once it has been checked.",
+    failed: "Failed to send review",
+    failedRetry: "Couldn't send your review. Please try again.",
+    errors: {
+      rating: "Choose a rating from 1 to 5 stars",
+      textTooShort: "Tell us a little more (at least 10 characters)",
+      textTooLong: "Keep the review under 1000 characters",
+      name: "Enter your name",
+      nameTooLong: "Name must be 80 characters or fewer",
+    },
+  },
+  listing: {
+    heading: "{speciality} doctors",
+    doctorsOf: {
+      one: "{count} {speciality} doctor",
+      other: "{count} {speciality} doctors",
+    },
+    headingInCity: "{speciality} doctors in {city}",
+    available: "{doctors} available for video and in-clinic consultations",
+    filterAndSort: "Filter and sort these results",
+    byCity: "{speciality} doctors by city",
+    metaTitle: "{speciality} Doctors - Book Appointment Online",
+    metaTitleInCity: "{speciality} Doctors in {city} - Book Appointment Online",
+    metaDescription:
+      "Compare {doctors} by fees, experience and languages, and book a video or in-clinic consultation.",
+    metaDescriptionInCity:
+      "Compare {doctors} in {city} by fees, experience and languages, and book a video or in-clinic consultation.",
+  },
+  compare: {
+    title: "Compare doctors",
+    empty: "Add doctors to your shortlist, then pick up to {count} to compare.",
+    findDoctors: "Find doctors",
+    detail: "Detail",
+    remove: "Remove from comparison",
+    fees: "Fees",
+    experience: "Experience",
+    specialities: "Specialities",
+    languages: "Languages",
+    consultModes: "Consultation modes",
+    clinic: "Clinic",
+    address: "Address",
+  },
+  clinics: {
+    heading: "Clinics",
+    summary: "{clinics} in {cities}",
+    other: "Other",
+    metaTitle: "Clinics - Find a Clinic Near You",
+    metaDescription:
+      "Browse clinics by city and see the doctors practising at each one.",
+    filterAndSort: "Filter and sort these doctors",
+    doctorsHere: {
+      one: "{count} doctor at this clinic",
+      other: "{count} doctors at this clinic",
+    },
+    clinicMetaTitle: "{name} - Doctors & Appointments",
+    clinicMetaDescription:
+      "Book an appointment with {doctors} at {name}: {specialities}.",
+  },
+  footer: {
+    tagline: "Find the best doctors, clinics & hospitals in your area.",
+    forPatients: "For Patients",
+    searchDoctors: "Search for Doctors",
+    bookAppointment: "Book Appointment",
+    consultOnline: "Consult Online",
+    articles: "Health Articles",
+    packages: "Health Packages",
+    forDoctors: "For Doctors",
+    join: "Join Medical Network",
+    practice: "Practice Management",
+    stories: "Success Stories",
+    resources: "Medical Resources",
+    contact: "Contact Us",
+    email: "Email: {email}",
+    phone: "Phone: {phone}",
+    rights: "© {year} {site}. All rights reserved.",
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,358 @@
+import type { Messages } from "./en";
+
+// Hindi UI strings. Hindi treats 0 and 1 as singular ("one").
+export const hi: Messages = {
+  meta: {
+    title: "डॉक्टर खोजें",
+    description:
+      "अपने आस-पास के सबसे अच्छे डॉक्टर, क्लिनिक और अस्पताल खोजें और बुक करें",
+    homeTitle: "डॉक्टर खोजें | ऑनलाइन अपॉइंटमेंट बुक करें",
+    homeDescription: "अपने आस-पास के सबसे अच्छे डॉक्टर खोजें और बुक करें",
+  },
+  nav: {
+    skipToContent: "मुख्य सामग्री पर जाएँ",
+    skipToResults: "परिणामों पर जाएँ",
+    searchAll: "सभी डॉक्टर खोजें",
+    clinics: "क्लिनिक",
+    language: "भाषा",
+  },
+  common: {
+    loading: "लोड हो रहा है...",
+    clear: "हटाएँ",
+    close: "बंद करें",
+    breadcrumb: "ब्रेडक्रम्ब",
+    doctors: "डॉक्टर",
+    videoConsult: "वीडियो परामर्श",
+    inClinic: "क्लिनिक में",
+    rated: "रेटिंग",
+    none: "—",
+  },
+  counts: {
+    doctors: { one: "{count} डॉक्टर", other: "{count} डॉक्टर" },
+    clinics: { one: "{count} क्लिनिक", other: "{count} क्लिनिक" },
+    cities: { one: "{count} शहर", other: "{count} शहरों" },
+    reviews: { one: "{count} समीक्षा", other: "{count} समीक्षाएँ" },
+    slots: { one: "{count} स्लॉट", other: "{count} स्लॉट" },
+    stars: { one: "{count} स्टार", other: "{count} स्टार" },
+  },
+  format: {
+    experience: {
+      one: "{count} वर्ष का अनुभव",
+      other: "{count} वर्षों का अनुभव",
+    },
+    experienceShort: "{count} वर्ष",
+    rating: "{average} ({reviews})",
+    distanceUnder: "100 मी. से कम दूर",
+    distanceMetres: "{metres} मी. दूर",
+    distanceKm: "{km} कि.मी. दूर",
+    today: "आज",
+    tomorrow: "कल",
+    slot: "{day}, {time}",
+  },
+  home: {
+    heading: "डॉक्टर खोजें",
+    searchLabel: "डॉक्टर खोजें",
+    searchPlaceholder: "डॉक्टर, विशेषज्ञता, क्लिनिक खोजें...",
+    filters: "फ़िल्टर",
+  },
+  search: {
+    suggestions: "{label} सुझाव",
+    clearRecent: "हाल की खोजें हटाएँ",
+    groups: {
+      recent: "हाल की खोजें",
+      doctor: "डॉक्टर",
+      speciality: "विशेषज्ञता",
+      clinic: "क्लिनिक",
+      locality: "इलाके",
+    },
+  },
+  filters: {
+    heading: "फ़िल्टर",
+    clearAll: "सभी हटाएँ",
+    close: "फ़िल्टर बंद करें",
+    consultMode: "परामर्श का तरीका",
+    anyMode: "कोई भी",
+    speciality: "विशेषज्ञता",
+    searchSpecialities: "विशेषज्ञता खोजें",
+    matchSpecialities: "विशेषज्ञता का मिलान",
+    matchAny: "इनमें से कोई",
+    matchAll: "ये सभी",
+    selectAll: "सभी चुनें",
+    selectVisible: "दिख रहे सभी चुनें",
+    noSpecialities: '"{filter}" से कोई विशेषज्ञता नहीं मिली',
+    language: "भाषा",
+    fees: "फ़ीस",
+    feeUnder: "{max} से कम",
+    feeBetween: "{min}–{max}",
+    feeOver: "{min} और उससे ज़्यादा",
+    experience: "अनुभव",
+    minimum: "न्यूनतम {title}",
+    maximum: "अधिकतम {title}",
+    rating: "मरीज़ों की रेटिंग",
+    anyRating: "कोई भी रेटिंग",
+    ratingAtLeast: "{rating}★ या अधिक",
+    city: "शहर",
+    locality: "इलाका",
+    clinic: "क्लिनिक",
+    sortBy: "क्रम",
+    sortRecommended: "सुझाया गया",
+    sortFees: "फ़ीस (कम से ज़्यादा)",
+    sortExperience: "अनुभव (ज़्यादा से कम)",
+    sortRating: "सबसे अच्छी रेटिंग",
+    sortDistance: "सबसे नज़दीक पहले",
+  },
+  location: {
+    heading: "स्थान",
+    placeholder: "इलाका या शहर",
+    go: "खोजें",
+    useCurrent: "मेरा मौजूदा स्थान इस्तेमाल करें",
+    unsupported: "आपका ब्राउज़र अपना स्थान साझा नहीं कर सकता",
+    finding: "आपका स्थान खोजा जा रहा है…",
+    denied: "स्थान की अनुमति नहीं मिली, इसके बजाय इलाका लिखें",
+    failed: "आपका स्थान नहीं मिल सका, इसके बजाय इलाका लिखें",
+    near: "{place} के पास",
+    yourLocation: "आपके स्थान",
+    notFound: '"{place}" नहीं मिला',
+    distance: "दूरी",
+    anyDistance: "कोई भी दूरी",
+    within: "{km} कि.मी. के अंदर",
+  },
+  savedSearches: {
+    heading: "सहेजी गई खोजें",
+    nameLabel: "इस खोज का नाम",
+    save: "सहेजें",
+    saved: "सहेजा गया",
+    rename: "नाम बदलें",
+    renameNamed: "{name} का नाम बदलें",
+    delete: "हटाएँ",
+    deleteNamed: "{name} हटाएँ",
+    allDoctors: "सभी डॉक्टर",
+  },
+  results: {
+    loading: "डॉक्टर लोड हो रहे हैं…",
+    failed: "डॉक्टरों की जानकारी लोड नहीं हो सकी",
+    none: "कोई डॉक्टर नहीं मिला",
+    showing: {
+      one: "{count} में से {first}–{last} डॉक्टर दिखाए जा रहे हैं",
+      other: "{count} में से {first}–{last} डॉक्टर दिखाए जा रहे हैं",
+    },
+    showMap: "नक्शा दिखाएँ",
+    hideMap: "नक्शा छिपाएँ",
+    noMatches: "आपकी शर्तों से मेल खाता कोई डॉक्टर नहीं मिला।",
+    clearFilters: "फ़िल्टर हटाएँ",
+    perPage: "प्रति पेज डॉक्टर",
+  },
+  sort: {
+    label: "क्रम",
+    default: "डिफ़ॉल्ट",
+    bestMatch: "सबसे अच्छा मिलान",
+    direction: "क्रम की दिशा: {direction}। उलटने के लिए क्लिक करें",
+    keys: {
+      relevance: "प्रासंगिकता",
+      fees: "फ़ीस",
+      experience: "अनुभव",
+      name: "नाम",
+      languages: "बोली जाने वाली भाषाएँ",
+      distance: "दूरी",
+      rating: "रेटिंग",
+    },
+    directions: {
+      relevance: {
+        asc: "सबसे कम मिलान पहले",
+        desc: "सबसे अच्छा मिलान पहले",
+      },
+      fees: { asc: "कम से ज़्यादा", desc: "ज़्यादा से कम" },
+      experience: { asc: "सबसे कम पहले", desc: "सबसे ज़्यादा पहले" },
+      name: { asc: "A से Z", desc: "Z से A" },
+      languages: { asc: "सबसे कम पहले", desc: "सबसे ज़्यादा पहले" },
+      distance: { asc: "सबसे नज़दीक पहले", desc: "सबसे दूर पहले" },
+      rating: { asc: "सबसे कम रेटिंग पहले", desc: "सबसे अच्छी रेटिंग पहले" },
+    },
+  },
+  pagination: {
+    label: "पेज",
+    previous: "पिछला",
+    next: "अगला",
+  },
+  share: {
+    copyLink: "लिंक कॉपी करें",
+    copied: "लिंक कॉपी हो गया",
+    copyPrompt: "यह लिंक कॉपी करें",
+    qrCode: "QR कोड",
+    qrTitle: "यह खोज खोलने के लिए स्कैन करें",
+    qrImage: "{url} का QR कोड",
+    printTitle: "डॉक्टर खोजें",
+    printCaption: "ये डॉक्टर देखने के लिए स्कैन करें",
+    print: "प्रिंट करें",
+    download: "डाउनलोड करें",
+  },
+  map: {
+    zoomIn: "ज़ूम इन करें",
+    zoomOut: "ज़ूम आउट करें",
+    clinic: "{name}: {doctors}",
+    cluster: "{clinics}, {doctors}। ज़ूम इन करें",
+    unplaced: "{count} का नक्शे पर स्थान नहीं है",
+  },
+  card: {
+    availableToday: "आज उपलब्ध",
+    next: "अगला: {slot}",
+    noSlots: "इस हफ़्ते कोई स्लॉट नहीं",
+    viewProfile: "प्रोफ़ाइल देखें",
+    bookNow: "अभी बुक करें",
+  },
+  shortlist: {
+    open: "शॉर्टलिस्ट",
+    title: "आपकी शॉर्टलिस्ट",
+    empty: "डॉक्टर को यहाँ सहेजने के लिए उनके दिल पर टैप करें।",
+    pickToCompare: "तुलना के लिए {count} तक डॉक्टर चुनें।",
+    compareNamed: "{name} की तुलना करें",
+    add: "शॉर्टलिस्ट में जोड़ें",
+    addNamed: "{name} को शॉर्टलिस्ट में जोड़ें",
+    remove: "हटाएँ",
+    removeFromShortlist: "शॉर्टलिस्ट से हटाएँ",
+    removeNamed: "{name} को शॉर्टलिस्ट से हटाएँ",
+    clear: "शॉर्टलिस्ट खाली करें",
+    compare: "{count} की तुलना करें",
+    pickTwo: "तुलना के लिए कम से कम 2 चुनें",
+  },
+  recent: {
+    heading: "हाल ही में देखे गए",
+  },
+  booking: {
+    title: "अपॉइंटमेंट बुक करें",
+    offline: "ये डॉक्टर ऑनलाइन अपॉइंटमेंट नहीं ले रहे हैं।",
+    confirmed: "अपॉइंटमेंट पक्का हो गया",
+    withDoctor: "{name} के साथ {mode}",
+    reference: "बुकिंग संदर्भ: {reference}",
+    done: "ठीक है",
+    mode: "परामर्श का तरीका",
+    continue: "आगे बढ़ें",
+    noSlots: "अगले 7 दिनों में कोई स्लॉट खाली नहीं है।",
+    loadFailed: "खाली स्लॉट लोड नहीं हो सके। कृपया फिर से कोशिश करें।",
+    slotTaken: "यह स्लॉट अब उपलब्ध नहीं है",
+    failed: "अपॉइंटमेंट बुक नहीं हो सका",
+    failedRetry: "अपॉइंटमेंट बुक नहीं हो सका। कृपया फिर से कोशिश करें।",
+    patientName: "मरीज़ का नाम",
+    phone: "मोबाइल नंबर",
+    email: "ईमेल (वैकल्पिक)",
+    age: "उम्र (वैकल्पिक)",
+    reason: "आने का कारण (वैकल्पिक)",
+    back: "वापस",
+    booking: "बुक हो रहा है...",
+    confirm: "बुकिंग पक्की करें",
+    errors: {
+      name: "मरीज़ का पूरा नाम लिखें",
+      nameTooLong: "नाम 80 अक्षरों से ज़्यादा नहीं हो सकता",
+      phone: "सही 10 अंकों का मोबाइल नंबर लिखें",
+      email: "सही ईमेल पता लिखें",
+      age: "0 से 120 के बीच उम्र लिखें",
+      reason: "कारण 500 अक्षरों से कम में लिखें",
+    },
+  },
+  profile: {
+    experience: "अनुभव",
+    fee: "परामर्श फ़ीस",
+    languages: "भाषाएँ",
+    notListed: "उपलब्ध नहीं",
+    about: "परिचय",
+    consultModes: "परामर्श के तरीके",
+    available: "उपलब्ध",
+    unavailable: "उपलब्ध नहीं",
+    clinic: "क्लिनिक",
+    logo: "{name} का लोगो",
+    location: "स्थान: {location}",
+    clinicDoctors: "{name} के सभी डॉक्टर देखें",
+    reviews: "मरीज़ों की समीक्षाएँ",
+    outOfFive: "5 में से {rating} स्टार",
+    noReviews:
+      "अभी कोई समीक्षा नहीं है। अपना अनुभव साझा करने वाले पहले व्यक्ति बनें।",
+    nextAvailable: "अगला खाली समय: {slot}",
+    noSlots: "अगले 7 दिनों में कोई स्लॉट खाली नहीं है",
+    metaDescription: "{name}, {specialities}, {experience}।",
+  },
+  reviewForm: {
+    heading: "{name} की समीक्षा करें",
+    rating: "आपकी रेटिंग",
+    name: "आपका नाम",
+    text: "आपका अनुभव",
+    submit: "समीक्षा भेजें",
+    sending: "भेजा जा रहा है...",
+    thanks: "समीक्षा के लिए धन्यवाद! जाँच के बाद यह यहाँ दिखेगी।",
+    failed: "समीक्षा नहीं भेजी जा सकी",
+    failedRetry: "आपकी समीक्षा नहीं भेजी जा सकी। कृपया फिर से कोशिश करें।",
+    errors: {
+      rating: "1 से 5 स्टार के बीच रेटिंग चुनें",
+      textTooShort: "थोड़ा और बताएँ (कम से कम 10 अक्षर)",
+      textTooLong: "समीक्षा 1000 अक्षरों से कम में लिखें",
+      name: "अपना नाम लिखें",
+      nameTooLong: "नाम 80 अक्षरों से ज़्यादा नहीं हो सकता",
+    },
+  },
+  listing: {
+    heading: "{speciality} डॉक्टर",
+    doctorsOf: {
+      one: "{count} {speciality} डॉक्टर",
+      other: "{count} {speciality} डॉक्टरों",
+    },
+    headingInCity: "{city} में {speciality} डॉक्टर",
+    available: "वीडियो और क्लिनिक परामर्श के लिए {doctors} उपलब्ध",
+    filterAndSort: "इन परिणामों को फ़िल्टर करें और क्रम बदलें",
+    byCity: "शहर के अनुसार {speciality} डॉक्टर",
+    metaTitle: "{speciality} डॉक्टर - ऑनलाइन अपॉइंटमेंट बुक करें",
+    metaTitleInCity:
+      "{city} में {speciality} डॉक्टर - ऑनलाइन अपॉइंटमेंट बुक करें",
+    metaDescription:
+      "फ़ीस, अनुभव और भाषाओं के आधार पर {doctors} की तुलना करें और वीडियो या क्लिनिक परामर्श बुक करें।",
+    metaDescriptionInCity:
+      "{city} में फ़ीस, अनुभव और भाषाओं के आधार पर {doctors} की तुलना करें और वीडियो या क्लिनिक परामर्श बुक करें।",
+  },
+  compare: {
+    title: "डॉक्टरों की तुलना करें",
+    empty:
+      "डॉक्टरों को अपनी शॉर्टलिस्ट में जोड़ें, फिर तुलना के लिए {count} तक चुनें।",
+    findDoctors: "डॉक्टर खोजें",
+    detail: "विवरण",
+    remove: "तुलना से हटाएँ",
+    fees: "फ़ीस",
+    experience: "अनुभव",
+    specialities: "विशेषज्ञता",
+    languages: "भाषाएँ",
+    consultModes: "परामर्श के तरीके",
+    clinic: "क्लिनिक",
+    address: "पता",
+  },
+  clinics: {
+    heading: "क्लिनिक",
+    summary: "{cities} में {clinics}",
+    other: "अन्य",
+    metaTitle: "क्लिनिक - अपने पास का क्लिनिक खोजें",
+    metaDescription:
+      "शहर के अनुसार क्लिनिक देखें और हर क्लिनिक के डॉक्टरों के बारे में जानें।",
+    filterAndSort: "इन डॉक्टरों को फ़िल्टर करें और क्रम बदलें",
+    doctorsHere: {
+      one: "इस क्लिनिक में {count} डॉक्टर",
+      other: "इस क्लिनिक में {count} डॉक्टर",
+    },
+    clinicMetaTitle: "{name} - डॉक्टर और अपॉइंटमेंट",
+    clinicMetaDescription:
+      "{name} में {doctors} के साथ अपॉइंटमेंट बुक करें: {specialities}।",
+  },
+  footer: {
+    tagline: "अपने इलाके के सबसे अच्छे डॉक्टर, क्लिनिक और अस्पताल खोजें।",
+    forPatients: "मरीज़ों के लिए",
+    searchDoctors: "डॉक्टर खोजें",
+    bookAppointment: "अपॉइंटमेंट बुक करें",
+    consultOnline: "ऑनलाइन परामर्श",
+    articles: "स्वास्थ्य लेख",
+    packages: "स्वास्थ्य पैकेज",
+    forDoctors: "डॉक्टरों के लिए",
+    join: "मेडिकल नेटवर्क से जुड़ें",
+    practice: "प्रैक्टिस मैनेजमेंट",
+    stories: "सफलता की कहानियाँ",
+    resources: "मेडिकल संसाधन",
+    contact: "संपर्क करें",
+    email: "ईमेल: {email}",
+    phone: "फ़ोन: {phone}",
+    rights: "© {year} {site}। सर्वाधिकार सुरक्षित।",
+  },
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { localePath, negotiateLocale, stripLocale } from "./config";
+import { getI18n } from "./translate";
+
+const en = getI18n("en");
+const hi = getI18n("hi");
+
+describe("t", () => {
+  it("fills in placeholders and formats numbers", () => {
+    expect(en.t("location.within", { km: 10 })).toBe("Within 10 km");
+    expect(en.t("results.showing", { first: 1, last: 20, count: 1500 })).toBe(
+      "Showing 1–20 of 1,500 doctors"
+    );
+  });
+
+  it("picks the plural form for the language", () => {
+    expect(en.t("counts.doctors", { count: 1 })).toBe("1 doctor");
+    expect(en.t("counts.doctors", { count: 0 })).toBe("0 doctors");
+    expect(en.formatExperience(1)).toBe("1 Year of experience");
+    expect(en.formatExperience(13)).toBe("13 Years of experience");
+
+    // Hindi treats 0 like 1
+    expect(hi.formatExperience(0)).toBe("0 वर्ष का अनुभव");
+    expect(hi.formatExperience(13)).toBe("13 वर्षों का अनुभव");
+  });
+});
+
+describe("formatFees", () => {
+  it("groups rupees in lakhs without paise", () => {
+    expect(en.formatFees({ amount: 120000, currency: "INR" })).toBe(
+      "₹1,20,000"
+    );
+    expect(hi.formatFees({ amount: 500, currency: "INR" })).toBe("₹500");
+  });
+
+  it("keeps fractions and falls back for unknown currencies", () => {
+    expect(en.formatFees({ amount: 12.5, currency: "USD" })).toBe("$12.50");
+    expect(en.formatFees({ amount: 500, currency: "Rs" })).toBe("Rs 500");
+  });
+});
+
+describe("locale paths", () => {
+  it("prefixes and strips the locale", () => {
+    expect(localePath("hi", "/")).toBe("/hi");
+    expect(hi.href("/doctors/dentist")).toBe("/hi/doctors/dentist");
+    expect(stripLocale("/hi/clinics")).toBe("/clinics");
+    expect(stripLocale("/hi")).toBe("/");
+    expect(stripLocale("/admin")).toBe("/admin");
+  });
+
+  it("negotiates Accept-Language by quality", () => {
+    expect(negotiateLocale("hi-IN,hi;q=0.9,en;q=0.8")).toBe("hi");
+    expect(negotiateLocale("ta-IN,en;q=0.5,hi;q=0.7")).toBe("hi");
+    expect(negotiateLocale("fr-FR")).toBe("en");
+    expect(negotiateLocale(null)).toBe("en");
+  });
+});
@@ -0,0 +1,99 @@
+import type { Money } from "@/lib/doctors/types";
+import { intlLocales, localePath, type Locale } from "./config";
+import { en, type Messages } from "./messages/en";
+import { hi } from "./messages/hi";
+
+const catalogs: Record<Locale, Messages> = { en, hi };
+
+// A message that depends on {count}
+interface Plural {
+  one: string;
+  other: string;
+}
+
+// Dotted path to every message, e.g. "filters.heading" or "counts.doctors"
+type MessagePath<T, Prefix extends string = ""> = {
+  [K in keyof T & string]: T[K] extends string | Plural
+    ? `${Prefix}${K}`
+    : MessagePath<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = MessagePath<Messages>;
+
+export type MessageParams = Record<string, string | number>;
+
+// Everything a component needs to render in one language
+export interface I18n {
+  locale: Locale;
+  // Tag for Intl formatters, e.g. "hi-IN"
+  intlLocale: string;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number) => string;
+  // "₹1,200", in the currency the doctor charges in
+  formatFees: (fees: Money) => string;
+  // "13 Years of experience"
+  formatExperience: (years: number) => string;
+  // An app path in this language, e.g. "/doctors/1" -> "/hi/doctors/1"
+  href: (path: string) => string;
+}
+
+function createI18n(locale: Locale): I18n {
+  const intlLocale = intlLocales[locale];
+  const numbers = new Intl.NumberFormat(intlLocale);
+  const plurals = new Intl.PluralRules(intlLocale);
+  const formatNumber = (value: number) => numbers.format(value);
+
+  const t = (key: MessageKey, params: MessageParams = {}) => {
+    const message = key
+      .split(".")
+      .reduce<unknown>(
+        (node, part) => (node as Record<string, unknown>)[part],
+        catalogs[locale]
+      ) as string | Plural;
+    const text =
+      typeof message === "string"
+        ? message
+        : (message[plurals.select(Number(params.count)) as keyof Plural] ??
+          message.other);
+
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === "number" ? formatNumber(value) : value;
+    });
+  };
+
+  const formatFees = ({ amount, currency }: Money) => {
+    try {
+      return new Intl.NumberFormat(intlLocale, {
+        style: "currency",
+        currency,
+        maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+      }).format(amount);
+    } catch {
+      // Not an ISO currency code
+      return `${currency} ${formatNumber(amount)}`;
+    }
+  };
+
+  return {
+    locale,
+    intlLocale,
+    t,
+    formatNumber,
+    formatFees,
+    formatExperience: (years) => t("format.experience", { count: years }),
+    href: (path) => localePath(locale, path),
+  };
+}
+
+const cache = new Map<Locale, I18n>();
+
+export function getI18n(locale: Locale): I18n {
+  let i18n = cache.get(locale);
+  if (!i18n) {
+    i18n = createI18n(locale);
+    cache.set(locale, i18n);
+  }
+  return i18n;
+}
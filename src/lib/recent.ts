@@ -0,0 +1,60 @@
+import {
+  parseSnapshots,
+  snapshotDoctor,
+  type DoctorSnapshot,
+} from "@/lib/doctors/snapshot";
+import type { Doctor } from "@/lib/doctors/types";
+import { localStore } from "@/lib/store/local-store";
+
+// Oldest entries drop off past these sizes
+export const maxRecentSearches = 8;
+export const maxRecentDoctors = 10;
+
+function parseSearches(value: unknown): string[] | null {
+  return Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === "string")
+    : null;
+}
+
+// Most recent first
+export const recentSearchesStore = localStore<string[]>(
+  "recent-searches",
+  [],
+  parseSearches
+);
+
+export const recentDoctorsStore = localStore<DoctorSnapshot[]>(
+  "recently-viewed",
+  [],
+  parseSnapshots
+);
+
+export function rememberSearch(text: string) {
+  const search = text.trim();
+  if (!search) return;
+  recentSearchesStore.set((searches) =>
+    [
+      search,
+      ...searches.filter(
+        (previous) => previous.toLowerCase() !== search.toLowerCase()
+      ),
+    ].slice(0, maxRecentSearches)
+  );
+}
+
+export function clearRecentSearches() {
+  recentSearchesStore.set(() => []);
+}
+
+export function rememberDoctor(doctor: Doctor) {
+  recentDoctorsStore.set((doctors) =>
+    [
+      snapshotDoctor(doctor),
+      ...doctors.filter((previous) => previous.id !== doctor.id),
+    ].slice(0, maxRecentDoctors)
+  );
+}
+
+export function clearRecentDoctors() {
+  recentDoctorsStore.set(() => []);
+}
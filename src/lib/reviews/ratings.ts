@@ -0,0 +1,37 @@
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+import type { RatingSummary, Review } from "./types";
+
+// Minimum ratings offered by the rating filter
+export const ratingThresholds = [4, 3, 2];
+
+// Average and count per doctor id. Only pass approved reviews.
+export function summarizeRatings(
+  reviews: Review[]
+): Record<string, RatingSummary> {
+  const totals: Record<string, { sum: number; count: number }> = {};
+  reviews.forEach(({ doctorId, rating }) => {
+    const total = (totals[doctorId] ??= { sum: 0, count: 0 });
+    total.sum += rating;
+    total.count += 1;
+  });
+
+  return Object.fromEntries(
+    Object.entries(totals).map(([doctorId, { sum, count }]) => [
+      doctorId,
+      { average: Math.round((sum / count) * 10) / 10, count },
+    ])
+  );
+}
+
+// "4.5 (12 reviews)"
+export function formatRating(
+  { average, count }: RatingSummary,
+  locale: Locale = defaultLocale
+): string {
+  const { t } = getI18n(locale);
+  return t("format.rating", {
+    average: average.toFixed(1),
+    reviews: t("counts.reviews", { count }),
+  });
+}
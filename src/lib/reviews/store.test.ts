@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import {
+  listReviews,
+  loadRatings,
+  moderateReview,
+  ReviewNotFoundError,
+  submitReview,
+} from "./store";
+
+const review = (rating: number) => ({
+  rating,
+  text: "Listened carefully and explained everything.",
+  name: "Asha",
+});
+
+describe("review store", () => {
+  it("only counts approved reviews towards a rating", async () => {
+    const first = await submitReview("rated", review(5));
+    const second = await submitReview("rated", review(4));
+    const third = await submitReview("rated", review(1));
+
+    expect(first.status).toBe("pending");
+    expect(await loadRatings()).not.toHaveProperty("rated");
+
+    await moderateReview(first.id, "approved");
+    await moderateReview(second.id, "approved");
+    await moderateReview(third.id, "rejected");
+
+    expect((await loadRatings()).rated).toEqual({ average: 4.5, count: 2 });
+    expect(
+      await listReviews({ doctorId: "rated", status: "rejected" })
+    ).toMatchObject([{ id: third.id, rating: 1 }]);
+  });
+
+  it("rejects moderating a review that doesn't exist", async () => {
+    await expect(moderateReview("missing", "approved")).rejects.toThrow(
+      ReviewNotFoundError
+    );
+  });
+});
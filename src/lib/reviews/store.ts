@@ -0,0 +1,68 @@
+import { randomUUID } from "crypto";
+import { jsonStore } from "@/lib/store/json-store";
+import { summarizeRatings } from "./ratings";
+import type { RatingSummary, Review, ReviewInput, ReviewStatus } from "./types";
+
+const store = jsonStore<Review[]>("reviews.json", () => []);
+
+export class ReviewNotFoundError extends Error {
+  constructor(id: string) {
+    super(`No review with id ${id}`);
+    this.name = "ReviewNotFoundError";
+  }
+}
+
+export interface ReviewFilter {
+  doctorId?: string;
+  status?: ReviewStatus;
+}
+
+// Newest first
+export async function listReviews(
+  filter: ReviewFilter = {}
+): Promise<Review[]> {
+  const reviews = await store.read();
+  return reviews
+    .filter(
+      (review) =>
+        (!filter.doctorId || review.doctorId === filter.doctorId) &&
+        (!filter.status || review.status === filter.status)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function submitReview(
+  doctorId: string,
+  input: ReviewInput
+): Promise<Review> {
+  return store.update((reviews) => {
+    const review: Review = {
+      id: randomUUID(),
+      doctorId,
+      ...input,
+      status: "pending",
+      createdAt: new Date().toISOString(),
+    };
+    reviews.push(review);
+    return review;
+  });
+}
+
+export async function moderateReview(
+  id: string,
+  status: ReviewStatus
+): Promise<Review> {
+  return store.update((reviews) => {
+    const review = reviews.find((existing) => existing.id === id);
+    if (!review) throw new ReviewNotFoundError(id);
+
+    review.status = status;
+    review.moderatedAt = new Date().toISOString();
+    return review;
+  });
+}
+
+// Rating of every doctor with approved reviews, keyed by doctor id
+export async function loadRatings(): Promise<Record<string, RatingSummary>> {
+  return summarizeRatings(await listReviews({ status: "approved" }));
+}
@@ -0,0 +1,32 @@
+// New reviews wait for a moderator before they're shown or counted
+export type ReviewStatus = "pending" | "approved" | "rejected";
+
+export interface ReviewInput {
+  // 1 to 5 stars
+  rating: number;
+  text: string;
+  // Shown with the review
+  name: string;
+}
+
+export interface Review extends ReviewInput {
+  id: string;
+  doctorId: string;
+  status: ReviewStatus;
+  createdAt: string;
+  // When a moderator last approved or rejected it
+  moderatedAt?: string;
+}
+
+// Approved reviews of one doctor, shown on cards
+export interface RatingSummary {
+  // Mean rating to one decimal place
+  average: number;
+  count: number;
+}
+
+// Shape returned by GET /api/doctors/[id]/reviews
+export interface ReviewsResponse {
+  reviews: Review[];
+  summary: RatingSummary | null;
+}
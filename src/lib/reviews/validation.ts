@@ -0,0 +1,43 @@
+import type { MessageKey } from "@/lib/i18n/translate";
+import type { ReviewInput } from "./types";
+
+// Message keys, translated where the form shows them
+export type ReviewErrors = Partial<Record<keyof ReviewInput, MessageKey>>;
+
+// Shared by the review form and POST /api/doctors/[id]/reviews
+export function validateReview(
+  input: unknown
+):
+  | { review: ReviewInput; errors?: never }
+  | { review?: never; errors: ReviewErrors } {
+  const values =
+    typeof input === "object" && input !== null
+      ? (input as Record<string, unknown>)
+      : {};
+  const errors: ReviewErrors = {};
+
+  const rating = Number(values.rating);
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    errors.rating = "reviewForm.errors.rating";
+  }
+
+  const text = typeof values.text === "string" ? values.text.trim() : "";
+  if (text.length < 10) {
+    errors.text = "reviewForm.errors.textTooShort";
+  } else if (text.length > 1000) {
+    errors.text = "reviewForm.errors.textTooLong";
+  }
+
+  const name = typeof values.name === "string" ? values.name.trim() : "";
+  if (name.length < 2) {
+    errors.name = "reviewForm.errors.name";
+  } else if (name.length > 80) {
+    errors.name = "reviewForm.errors.nameTooLong";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return { review: { rating, text, name } };
+}
@@ -0,0 +1,87 @@
+import type { DoctorQuery } from "@/lib/doctors/types";
+import { canonicalQuery, encodeQuery } from "@/lib/doctors/url-state";
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
+import { getI18n } from "@/lib/i18n/translate";
+import { localStore } from "@/lib/store/local-store";
+
+// A named set of filters, stored as the query string it encodes to
+export interface SavedSearch {
+  id: string;
+  name: string;
+  params: string;
+}
+
+export const maxSavedSearches = 20;
+
+function parseSavedSearches(value: unknown): SavedSearch[] | null {
+  if (!Array.isArray(value)) return null;
+  return value.filter(
+    (entry): entry is SavedSearch =>
+      typeof entry?.id === "string" &&
+      typeof entry?.name === "string" &&
+      typeof entry?.params === "string"
+  );
+}
+
+export const savedSearchesStore = localStore<SavedSearch[]>(
+  "saved-searches",
+  [],
+  parseSavedSearches
+);
+
+// Presets keep the filters and sort, not the page being looked at
+export function presetParams(query: DoctorQuery): string {
+  return encodeQuery(canonicalQuery({ ...query, page: 1 })).toString();
+}
+
+export function saveSearch(
+  name: string,
+  query: DoctorQuery,
+  locale: Locale = defaultLocale
+) {
+  const entry: SavedSearch = {
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: name.trim() || describeQuery(query, locale),
+    params: presetParams(query),
+  };
+  savedSearchesStore.set((searches) =>
+    [entry, ...searches].slice(0, maxSavedSearches)
+  );
+}
+
+export function renameSavedSearch(id: string, name: string) {
+  if (!name.trim()) return;
+  savedSearchesStore.set((searches) =>
+    searches.map((search) =>
+      search.id === id ? { ...search, name: name.trim() } : search
+    )
+  );
+}
+
+export function deleteSavedSearch(id: string) {
+  savedSearchesStore.set((searches) =>
+    searches.filter((search) => search.id !== id)
+  );
+}
+
+const consultLabels = {
+  video: "common.videoConsult",
+  clinic: "common.inClinic",
+} as const;
+
+// Suggested name for a preset, e.g. "Dentist · Video Consult · Bangalore"
+export function describeQuery(
+  query: DoctorQuery,
+  locale: Locale = defaultLocale
+): string {
+  const { t } = getI18n(locale);
+  const parts = [
+    query.search && `"${query.search}"`,
+    query.specialties.join(query.specialtyMatch === "all" ? " + " : " / "),
+    query.consultType && t(consultLabels[query.consultType]),
+    query.languages.join(" / "),
+    [...query.localities, ...query.cities].join(" / "),
+    query.minRating && t("filters.ratingAtLeast", { rating: query.minRating }),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : t("savedSearches.allDoctors");
+}
@@ -0,0 +1,193 @@
+import type { Doctor } from "@/lib/doctors/types";
+import { tokenize } from "./tokenize";
+
+export type SearchField =
+  | "name"
+  | "speciality"
+  | "clinic"
+  | "locality"
+  | "city"
+  | "language"
+  | "introduction";
+
+// How much a match in each field counts towards relevance
+const fieldWeights: Record<SearchField, number> = {
+  name: 5,
+  speciality: 4,
+  clinic: 3,
+  locality: 2.5,
+  city: 2.5,
+  language: 1.5,
+  introduction: 1,
+};
+
+// How good a match is, multiplied with the field weight
+const matchScores = { exact: 1, prefix: 0.8, fuzzy1: 0.6, fuzzy2: 0.4 };
+
+export interface SearchHit {
+  doctor: Doctor;
+  score: number;
+  // Index terms that matched, for highlighting
+  terms: string[];
+}
+
+export interface SearchIndex {
+  search(query: string): SearchHit[];
+}
+
+interface Posting {
+  doc: number;
+  field: SearchField;
+}
+
+function fieldsOf(doctor: Doctor): [SearchField, string][] {
+  return [
+    ["name", doctor.name],
+    ...doctor.specialities.map(({ name }): [SearchField, string] => [
+      "speciality",
+      name,
+    ]),
+    ["clinic", doctor.clinic.name],
+    ["locality", doctor.clinic.address.locality],
+    ["city", doctor.clinic.address.city],
+    ...doctor.languages.map((language): [SearchField, string] => [
+      "language",
+      language,
+    ]),
+    ["introduction", doctor.doctor_introduction ?? ""],
+  ];
+}
+
+// Typos allowed for a query word of this length
+function maxEdits(length: number): number {
+  if (length >= 8) return 2;
+  if (length >= 4) return 1;
+  return 0;
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent
+// transpositions), giving up once it exceeds `max`
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
+
+export function buildSearchIndex(doctors: Doctor[]): SearchIndex {
+  const postings = new Map<string, Posting[]>();
+
+  doctors.forEach((doctor, doc) => {
+    fieldsOf(doctor).forEach(([field, text]) => {
+      tokenize(text).forEach((term) => {
+        const list = postings.get(term) ?? [];
+        if (!list.some((p) => p.doc === doc && p.field === field)) {
+          list.push({ doc, field });
+        }
+        postings.set(term, list);
+      });
+    });
+  });
+
+  const vocabulary = Array.from(postings.keys());
+
+  // Index terms matching one query word, with how well they match
+  const expand = (word: string): [string, number][] => {
+    const edits = maxEdits(word.length);
+    const result: [string, number][] = [];
+
+    vocabulary.forEach((term) => {
+      if (term === word) {
+        result.push([term, matchScores.exact]);
+      } else if (term.startsWith(word)) {
+        result.push([term, matchScores.prefix]);
+      } else if (edits > 0) {
+        // Compare longer words against the same-length prefix too, so a typo
+        // in a partly typed word ("cardoi") still finds "cardiologist"
+        const distance = Math.min(
+          editDistance(word, term, edits),
+          word.length >= 5
+            ? editDistance(word, term.slice(0, word.length), edits)
+            : edits + 1
+        );
+        if (distance <= edits) {
+          result.push([
+            term,
+            distance === 1 ? matchScores.fuzzy1 : matchScores.fuzzy2,
+          ]);
+        }
+      }
+    });
+
+    return result;
+  };
+
+  return {
+    search(query: string): SearchHit[] {
+      const words = tokenize(query);
+      if (words.length === 0) return [];
+
+      // Per doctor: best score for each query word and the terms that matched
+      const scores = new Map<
+        number,
+        { perWord: number[]; terms: Set<string> }
+      >();
+
+      words.forEach((word, w) => {
+        expand(word).forEach(([term, matchScore]) => {
+          postings.get(term)!.forEach(({ doc, field }) => {
+            const entry = scores.get(doc) ?? {
+              perWord: new Array(words.length).fill(0),
+              terms: new Set<string>(),
+            };
+            const score = fieldWeights[field] * matchScore;
+            entry.perWord[w] = Math.max(entry.perWord[w], score);
+            entry.terms.add(term);
+            scores.set(doc, entry);
+          });
+        });
+      });
+
+      // Every query word has to match something
+      return Array.from(scores.entries())
+        .filter(([, entry]) => entry.perWord.every((score) => score > 0))
+        .map(([doc, entry]) => ({
+          doctor: doctors[doc],
+          score: entry.perWord.reduce((sum, score) => sum + score, 0),
+          terms: Array.from(entry.terms),
+        }))
+        .sort((a, b) => b.score - a.score);
+    },
+  };
+}
+
+const indexes = new WeakMap<Doctor[], SearchIndex>();
+
+// One index per loaded roster, built on first use
+export function getSearchIndex(doctors: Doctor[]): SearchIndex {
+  let index = indexes.get(doctors);
+  if (!index) {
+    index = buildSearchIndex(doctors);
+    indexes.set(doctors, index);
+  }
+  return index;
+}
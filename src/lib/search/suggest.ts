@@ -0,0 +1,142 @@
+import type { Doctor } from "@/lib/doctors/types";
+import type { SearchIndex } from "./search-index";
+import { tokenize } from "./tokenize";
+
+export type SuggestionType = "doctor" | "speciality" | "clinic" | "locality";
+
+export interface Suggestion {
+  type: SuggestionType;
+  // What selecting it filters on: doctor id, speciality, clinic id or locality
+  value: string;
+  label: string;
+  detail?: string;
+  image?: string;
+  // Matched search terms, for highlighting
+  terms: string[];
+}
+
+export interface SuggestionGroup {
+  type: SuggestionType;
+  items: Suggestion[];
+}
+
+// Shape returned by GET /api/suggest
+export interface SuggestResponse {
+  query: string;
+  groups: SuggestionGroup[];
+}
+
+function matchedTerms(text: string, terms: Set<string>): string[] {
+  return tokenize(text).filter((term) => terms.has(term));
+}
+
+// Grouped autocomplete entries for a query. Specialities, clinics and
+// localities come from the doctors the index matched, so they get the same
+// prefix and typo handling as the doctor results.
+export function suggest(
+  index: SearchIndex,
+  query: string,
+  limit = 5
+): SuggestionGroup[] {
+  const hits = index.search(query);
+
+  const groups: Record<SuggestionType, Map<string, Suggestion>> = {
+    doctor: new Map(),
+    speciality: new Map(),
+    clinic: new Map(),
+    locality: new Map(),
+  };
+
+  // Entities seen across more (and better) hits rank higher
+  const scores = new Map<string, number>();
+
+  const add = (suggestion: Suggestion, score: number) => {
+    const key = `${suggestion.type}:${suggestion.value}`;
+    const group = groups[suggestion.type];
+    if (!group.has(suggestion.value)) group.set(suggestion.value, suggestion);
+    scores.set(key, (scores.get(key) ?? 0) + score);
+  };
+
+  hits.forEach(({ doctor, score, terms }) => {
+    const matched = new Set(terms);
+
+    add(
+      {
+        type: "doctor",
+        value: doctor.id,
+        label: doctor.name,
+        detail: doctorDetail(doctor),
+        image: doctor.photo,
+        terms,
+      },
+      score
+    );
+
+    doctor.specialities.forEach(({ name }) => {
+      const specialityTerms = matchedTerms(name, matched);
+      if (specialityTerms.length > 0) {
+        add(
+          {
+            type: "speciality",
+            value: name,
+            label: name,
+            terms: specialityTerms,
+          },
+          score
+        );
+      }
+    });
+
+    const clinicTerms = matchedTerms(doctor.clinic.name, matched);
+    if (doctor.clinicId && clinicTerms.length > 0) {
+      add(
+        {
+          type: "clinic",
+          value: doctor.clinicId,
+          label: doctor.clinic.name,
+          detail: [doctor.clinic.address.locality, doctor.clinic.address.city]
+            .filter(Boolean)
+            .join(", "),
+          terms: clinicTerms,
+        },
+        score
+      );
+    }
+
+    const { locality, city } = doctor.clinic.address;
+    const localityTerms = matchedTerms(`${locality} ${city}`, matched);
+    if (locality && localityTerms.length > 0) {
+      add(
+        {
+          type: "locality",
+          value: locality,
+          label: locality,
+          detail: city,
+          terms: localityTerms,
+        },
+        score
+      );
+    }
+  });
+
+  return (Object.keys(groups) as SuggestionType[])
+    .map((type) => ({
+      type,
+      items:
+        type === "doctor"
+          ? // Doctors are already in relevance order
+            Array.from(groups[type].values()).slice(0, limit)
+          : Array.from(groups[type].values())
+              .sort(
+                (a, b) =>
+                  (scores.get(`${type}:${b.value}`) ?? 0) -
+                  (scores.get(`${type}:${a.value}`) ?? 0)
+              )
+              .slice(0, limit),
+    }))
+    .filter((group) => group.items.length > 0);
+}
+
+function doctorDetail(doctor: Doctor): string {
+  return doctor.specialities.map(({ name }) => name).join(", ");
+}
@@ -0,0 +1,28 @@
+// Words too common in doctor data to help ranking ("Dr.", "and", ...)
+const stopWords = new Set([
+  "a",
+  "an",
+  "and",
+  "dr",
+  "for",
+  "in",
+  "of",
+  "the",
+  "with",
+]);
+
+// Lowercase, strip accents, fold everything that isn't a letter or digit
+export function normalizeTerm(word: string): string {
+  return word
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .split(/[^\p{L}\p{N}]+/u)
+    .map(normalizeTerm)
+    .filter((term) => term !== "" && !stopWords.has(term));
+}
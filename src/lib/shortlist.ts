@@ -0,0 +1,45 @@
+import {
+  parseSnapshots,
+  snapshotDoctor,
+  type DoctorSnapshot,
+} from "@/lib/doctors/snapshot";
+import type { Doctor } from "@/lib/doctors/types";
+import { localStore } from "@/lib/store/local-store";
+
+export type ShortlistEntry = DoctorSnapshot;
+
+// The compare page shows at most this many doctors side by side
+export const maxCompare = 4;
+
+export const shortlistStore = localStore<ShortlistEntry[]>(
+  "shortlist",
+  [],
+  parseSnapshots
+);
+
+export function isShortlisted(entries: ShortlistEntry[], id: string) {
+  return entries.some((entry) => entry.id === id);
+}
+
+export function toggleShortlist(doctor: Doctor) {
+  shortlistStore.set((entries) =>
+    isShortlisted(entries, doctor.id)
+      ? entries.filter((entry) => entry.id !== doctor.id)
+      : [...entries, snapshotDoctor(doctor)]
+  );
+}
+
+export function removeFromShortlist(id: string) {
+  shortlistStore.set((entries) => entries.filter((entry) => entry.id !== id));
+}
+
+export function clearShortlist() {
+  shortlistStore.set(() => []);
+}
+
+// "/doctors/compare?ids=111601&ids=111602"
+export function comparePath(ids: string[]): string {
+  const params = new URLSearchParams();
+  ids.forEach((id) => params.append("ids", id));
+  return `/doctors/compare?${params}`;
+}
@@ -0,0 +1,10 @@
+// Public origin used for canonical URLs, the sitemap and JSON-LD
+export const siteUrl = (
+  process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000"
+).replace(/\/+$/, "");
+
+export const siteName = "HealthCare";
+
+export function absoluteUrl(path: string): string {
+  return `${siteUrl}${path.startsWith("/") ? path : `/${path}`}`;
+}
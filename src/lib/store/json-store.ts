@@ -0,0 +1,57 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+// Directory for local JSON stores, relative paths resolve from the project root
+export function dataDir(): string {
+  return path.resolve(process.cwd(), process.env.DATA_DIR ?? ".data");
+}
+
+export interface JsonStore<T> {
+  read(): Promise<T>;
+  // Read-modify-write under a lock, whatever fn returns is passed through
+  update<R>(fn: (data: T) => R | Promise<R>): Promise<R>;
+}
+
+// Writes to the same file are chained so concurrent requests in this process
+// can't interleave. Not safe across multiple server processes.
+const locks = new Map<string, Promise<unknown>>();
+
+export function jsonStore<T>(fileName: string, initial: () => T): JsonStore<T> {
+  const file = () => path.join(dataDir(), fileName);
+
+  const read = async (): Promise<T> => {
+    try {
+      return JSON.parse(await readFile(file(), "utf8"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return initial();
+      throw err;
+    }
+  };
+
+  const write = async (data: T) => {
+    await mkdir(dataDir(), { recursive: true });
+    // Write then rename so a crash never leaves a half-written file
+    const tmp = `${file()}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(data, null, 2));
+    await rename(tmp, file());
+  };
+
+  return {
+    read,
+    update<R>(fn: (data: T) => R | Promise<R>) {
+      const previous = locks.get(fileName) ?? Promise.resolve();
+      const next = previous.then(async () => {
+        const data = await read();
+        const result = await fn(data);
+        await write(data);
+        return result;
+      });
+      // Keep the chain going even if this update fails
+      locks.set(
+        fileName,
+        next.catch(() => undefined)
+      );
+      return next;
+    },
+  };
+}
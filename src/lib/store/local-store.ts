@@ -0,0 +1,70 @@
+// A small JSON value kept in localStorage that components can subscribe to,
+// e.g. through useLocalStore. Tabs stay in sync through the storage event.
+// Reads fall back to `initial` on the server, when storage is unavailable or
+// when the stored value doesn't pass `parse`.
+export interface LocalStore<T> {
+  initial: T;
+  get(): T;
+  set(update: (value: T) => T): void;
+  subscribe(listener: () => void): () => void;
+}
+
+export function localStore<T>(
+  key: string,
+  initial: T,
+  parse: (value: unknown) => T | null
+): LocalStore<T> {
+  const listeners = new Set<() => void>();
+  // Last raw string and its parsed value, so get() is stable between writes
+  let cached: { raw: string | null; value: T } = { raw: null, value: initial };
+
+  const get = (): T => {
+    let raw: string | null = null;
+    try {
+      raw = window.localStorage.getItem(key);
+    } catch {
+      return cached.value;
+    }
+    if (raw === cached.raw) return cached.value;
+
+    let value: T | null = null;
+    try {
+      value = raw === null ? initial : parse(JSON.parse(raw));
+    } catch {
+      // Corrupt JSON, start over
+    }
+    cached = { raw, value: value ?? initial };
+    return cached.value;
+  };
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === key || event.key === null) notify();
+  };
+
+  return {
+    initial,
+    get,
+    set(update) {
+      const value = update(get());
+      try {
+        window.localStorage.setItem(key, JSON.stringify(value));
+      } catch {
+        // Storage full or blocked; keep the value for this page view
+        cached = { raw: cached.raw, value };
+      }
+      notify();
+    },
+    subscribe(listener) {
+      if (listeners.size === 0) window.addEventListener("storage", onStorage);
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          window.removeEventListener("storage", onStorage);
+        }
+      };
+    },
+  };
+}
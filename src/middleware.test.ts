@@ -0,0 +1,49 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { middleware } from "./middleware";
+
+const password = `Basic ${btoa("admin:s3cret")}`;
+
+const importRoster = (headers: Record<string, string>) =>
+  middleware(
+    new NextRequest("http://localhost/api/admin/doctors/import", {
+      method: "POST",
+      headers: { authorization: password, ...headers },
+      body: JSON.stringify({ format: "json", text: "[]", replace: true }),
+    })
+  );
+
+describe("admin guard", () => {
+  beforeEach(() => {
+    vi.stubEnv("ADMIN_TOKEN", "s3cret");
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("rejects a cross-site text/plain form post", () => {
+    const response = importRoster({
+      "content-type": "text/plain",
+      origin: "https://evil.example",
+      "sec-fetch-site": "cross-site",
+    });
+    expect(response.status).toBe(403);
+  });
+
+  it("lets JSON through from the admin pages", () => {
+    const response = importRoster({
+      "content-type": "application/json",
+      origin: "http://localhost",
+      "sec-fetch-site": "same-origin",
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("x-middleware-next")).toBe("1");
+  });
+
+  it("asks for the password first", () => {
+    const response = middleware(
+      new NextRequest("http://localhost/admin", { method: "GET" })
+    );
+    expect(response.status).toBe(401);
+  });
+});
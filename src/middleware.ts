@@ -0,0 +1,68 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { isAdminAuthorized, isSameSiteChange } from "@/lib/admin/auth";
+import {
+  isLocale,
+  localeCookie,
+  localePath,
+  negotiateLocale,
+} from "@/lib/i18n/config";
+
+// The admin pages and API need the admin password, and changes must come as
+// JSON from this site (see lib/admin/auth).
+// Public pages live under /<locale>/. Unprefixed URLs (old links, "/")
+// redirect to the language picked last, or else the browser's preferred one,
+// and every prefixed page view remembers its language for next time.
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const [, prefix, section] = pathname.split("/");
+
+  if (prefix === "admin" || (prefix === "api" && section === "admin")) {
+    if (!isAdminAuthorized(request.headers.get("authorization"))) {
+      return NextResponse.json(
+        { error: "Admin login required" },
+        {
+          status: 401,
+          headers: {
+            "WWW-Authenticate": 'Basic realm="Admin", charset="UTF-8"',
+          },
+        }
+      );
+    }
+    if (!isSameSiteChange(request)) {
+      return NextResponse.json(
+        { error: "Admin changes must be JSON sent from this site" },
+        { status: 403 }
+      );
+    }
+    return NextResponse.next();
+  }
+
+  if (isLocale(prefix)) {
+    const response = NextResponse.next();
+    if (request.cookies.get(localeCookie)?.value !== prefix) {
+      response.cookies.set(localeCookie, prefix, {
+        path: "/",
+        maxAge: 60 * 60 * 24 * 365,
+        sameSite: "lax",
+      });
+    }
+    return response;
+  }
+
+  const saved = request.cookies.get(localeCookie)?.value;
+  const locale = isLocale(saved)
+    ? saved
+    : negotiateLocale(request.headers.get("accept-language"));
+  const url = request.nextUrl.clone();
+  url.pathname = localePath(locale, pathname);
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  // The admin, plus everything except the API, Next.js internals and files
+  matcher: [
+    "/admin/:path*",
+    "/api/admin/:path*",
+    "/((?!api/|admin|_next/|.*\\..*).*)",
+  ],
+};
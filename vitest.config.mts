@@ -0,0 +1,15 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  esbuild: { jsx: "automatic" },
+  test: {
+    include: ["src/**/*.test.{ts,tsx}"],
+    // Component tests opt into jsdom with a `@vitest-environment` comment
+    environment: "node",
+    setupFiles: ["./vitest.setup.ts"],
+  },
+});
@@ -0,0 +1,11 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import "@testing-library/jest-dom/vitest";
+import { cleanup } from "@testing-library/react";
+import { afterEach } from "vitest";
+
+// Keep bookings and other local stores out of the working tree
+process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), "doctor-listing-"));
+
+afterEach(cleanup);